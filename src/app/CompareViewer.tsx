@@ -0,0 +1,151 @@
+'use client';
+import React, { useRef, useState } from 'react';
+import { TransformWrapper, TransformComponent, ReactZoomPanPinchContentRef, ReactZoomPanPinchRef } from 'react-zoom-pan-pinch';
+
+export interface CompareImage {
+  url: string;
+  label: string;
+}
+
+type CompareMode = 'side-by-side' | 'swipe';
+
+interface CompareViewerProps {
+  left: CompareImage;
+  right: CompareImage;
+  onClose: () => void;
+  onModeChange?: (mode: CompareMode) => void;
+}
+
+interface ViewState {
+  scale: number;
+  positionX: number;
+  positionY: number;
+}
+
+const fill = { width: '100%', height: '100%' };
+
+// Before/after viewer: two synced panes, or one pane with a draggable swipe divider
+const CompareViewer = ({ left, right, onClose, onModeChange }: CompareViewerProps) => {
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  const [view, setView] = useState<ViewState>({ scale: 1, positionX: 0, positionY: 0 });
+  const [swipe, setSwipe] = useState(0.5); // Divider position as a fraction of the pane width
+  const leftRef = useRef<ReactZoomPanPinchContentRef>(null);
+  const rightRef = useRef<ReactZoomPanPinchContentRef>(null);
+  const swipePaneRef = useRef<HTMLDivElement>(null);
+
+  // Copy one pane's transform to the other; skipping identical states stops the echo
+  const mirrorTo = (target: React.RefObject<ReactZoomPanPinchContentRef | null>) => (_ref: ReactZoomPanPinchRef, state: ViewState) => {
+    setView({ scale: state.scale, positionX: state.positionX, positionY: state.positionY });
+    const other = target.current;
+    if (!other) return;
+    const current = other.instance.transformState;
+    if (current.scale === state.scale && current.positionX === state.positionX && current.positionY === state.positionY) return;
+    other.setTransform(state.positionX, state.positionY, state.scale, 0);
+  };
+
+  const changeMode = (next: CompareMode) => {
+    setMode(next);
+    onModeChange?.(next);
+  };
+
+  const dragDivider = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pane = swipePaneRef.current;
+    if (!pane || !(e.buttons & 1)) return;
+    const rect = pane.getBoundingClientRect();
+    setSwipe(Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1));
+  };
+
+  // The divider lives in screen space; clip the top image at the content x under it
+  const paneWidth = swipePaneRef.current?.offsetWidth || 1;
+  const clipFraction = Math.min(Math.max((swipe - view.positionX / paneWidth) / view.scale, 0), 1);
+
+  const imageClass = 'w-full h-full object-contain select-none';
+  const label = (text: string, side: 'left' | 'right') => (
+    <div className={`absolute top-2 ${side === 'left' ? 'left-2' : 'right-2'} z-10 px-2 py-1 rounded-sm text-xs font-mono bg-black/60 text-white pointer-events-none`}>{text}</div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[10001] bg-black/70 flex items-center justify-center p-6">
+      <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-md shadow-md w-full max-w-6xl p-4 flex flex-col gap-3">
+        <div className="flex items-center justify-between">
+          <div className="flex gap-1">
+            {(['side-by-side', 'swipe'] as const).map(m => (
+              <button
+                key={m}
+                className={`px-3 py-1 rounded-sm text-xs font-medium border ${mode === m ? 'bg-blue-600 text-white border-blue-700' : 'bg-transparent border-neutral-300 dark:border-neutral-700 hover:bg-neutral-200 dark:hover:bg-neutral-800'} transition`}
+                onClick={() => changeMode(m)}
+              >
+                {m === 'swipe' ? 'Swipe' : 'Side by side'}
+              </button>
+            ))}
+            <button
+              className="px-3 py-1 rounded-sm text-xs font-medium border bg-transparent border-neutral-300 dark:border-neutral-700 hover:bg-neutral-200 dark:hover:bg-neutral-800 transition"
+              onClick={() => { leftRef.current?.resetTransform(0); rightRef.current?.resetTransform(0); }}
+            >
+              Reset zoom
+            </button>
+          </div>
+          <button
+            className="bg-neutral-200 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-200 rounded-full w-6 h-6 flex items-center justify-center hover:bg-red-600 hover:text-white focus:outline-none focus:ring-2 focus:ring-red-300"
+            onClick={onClose}
+            title="Close comparison"
+          >
+            ×
+          </button>
+        </div>
+        {mode === 'side-by-side' ? (
+          <div className="flex gap-2 h-[65vh]">
+            <div className="relative flex-1 overflow-hidden rounded-sm border border-neutral-200 dark:border-neutral-700 bg-black">
+              {label(left.label, 'left')}
+              <TransformWrapper ref={leftRef} onTransformed={mirrorTo(rightRef)} initialScale={view.scale} initialPositionX={view.positionX} initialPositionY={view.positionY}>
+                <TransformComponent wrapperStyle={fill} contentStyle={fill}>
+                  <img src={left.url} alt={left.label} className={imageClass} draggable={false} />
+                </TransformComponent>
+              </TransformWrapper>
+            </div>
+            <div className="relative flex-1 overflow-hidden rounded-sm border border-neutral-200 dark:border-neutral-700 bg-black">
+              {label(right.label, 'right')}
+              <TransformWrapper ref={rightRef} onTransformed={mirrorTo(leftRef)} initialScale={view.scale} initialPositionX={view.positionX} initialPositionY={view.positionY}>
+                <TransformComponent wrapperStyle={fill} contentStyle={fill}>
+                  <img src={right.url} alt={right.label} className={imageClass} draggable={false} />
+                </TransformComponent>
+              </TransformWrapper>
+            </div>
+          </div>
+        ) : (
+          <div ref={swipePaneRef} className="relative h-[65vh] overflow-hidden rounded-sm border border-neutral-200 dark:border-neutral-700 bg-black">
+            {label(left.label, 'left')}
+            {label(right.label, 'right')}
+            <TransformWrapper ref={leftRef} onTransformed={mirrorTo(rightRef)} initialScale={view.scale} initialPositionX={view.positionX} initialPositionY={view.positionY}>
+              <TransformComponent wrapperStyle={fill} contentStyle={fill}>
+                <div className="relative w-full h-full">
+                  <img src={left.url} alt={left.label} className={`absolute inset-0 ${imageClass}`} draggable={false} />
+                  <img
+                    src={right.url}
+                    alt={right.label}
+                    className={`absolute inset-0 ${imageClass}`}
+                    style={{ clipPath: `inset(0 0 0 ${clipFraction * 100}%)` }}
+                    draggable={false}
+                  />
+                </div>
+              </TransformComponent>
+            </TransformWrapper>
+            {/* Divider handle; pointer capture keeps the drag from panning the image */}
+            <div
+              className="absolute top-0 bottom-0 z-20 w-4 -ml-2 cursor-ew-resize flex justify-center touch-none"
+              style={{ left: `${swipe * 100}%` }}
+              onPointerDown={e => { e.stopPropagation(); e.currentTarget.setPointerCapture(e.pointerId); }}
+              onPointerMove={dragDivider}
+            >
+              <div className="w-0.5 h-full bg-white shadow" />
+              <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white border border-neutral-400 shadow" />
+            </div>
+          </div>
+        )}
+        <div className="text-xs text-neutral-500 dark:text-neutral-400">Scroll or pinch to zoom and drag to pan; both images stay locked together.</div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareViewer;
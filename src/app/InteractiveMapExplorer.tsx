@@ -1,9 +1,15 @@
 'use client';
 import React, { useState, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, useMapEvents } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Polygon, Polyline, CircleMarker, ImageOverlay, Tooltip, useMapEvents } from 'react-leaflet';
 import L, { LeafletMouseEvent } from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { TransformWrapper, TransformComponent } from 'react-zoom-pan-pinch';
+import type { LayerInfo, ProviderCapabilities } from '@/lib/imagery/types';
+import { findClosestDate } from '@/lib/imagery/dates';
+import { BBox, PolygonGeometry, bboxCenter, bboxOfPolygon, bboxToPolygon } from '@/lib/geo';
+import type { IndexStatisticsResult } from '@/lib/copernicus/statistics';
+import { queueClientLog } from '@/lib/client-log-queue';
+import CompareViewer, { CompareImage } from './CompareViewer';
+import StatisticsChart from './StatisticsChart';
 
 const redMarker = new L.Icon({
   iconUrl: 'data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 32 32"><circle cx="16" cy="16" r="10" fill="red" stroke="white" stroke-width="3"/></svg>',
@@ -20,11 +26,13 @@ const timezones = [
   // Add more as needed
 ];
 
-const sourceOptions = [
-  { label: 'NASA', value: 'nasa' },
-  { label: 'Copernicus', value: 'copernicus' },
-  { label: 'NASA GIBS', value: 'gibs' },
-];
+const aoiModeOptions = [
+  { label: 'Point', value: 'point', hint: 'Click the map to set the center point.' },
+  { label: 'Rectangle', value: 'rectangle', hint: 'Click two opposite corners on the map.' },
+  { label: 'Polygon', value: 'polygon', hint: 'Click to add vertices; double-click or Finish to close.' },
+] as const;
+
+type AoiMode = typeof aoiModeOptions[number]['value'];
 
 const resolutionOptions = [
   { label: '512px', value: '512' },
@@ -32,28 +40,38 @@ const resolutionOptions = [
   { label: '2048px', value: '2048' },
 ];
 
-const gibsLayerOptions = [
-  { label: 'MODIS Terra True Color', value: 'MODIS_Terra_CorrectedReflectance_TrueColor' },
-  { label: 'MODIS Aqua True Color', value: 'MODIS_Aqua_CorrectedReflectance_TrueColor' },
-  { label: 'VIIRS SNPP True Color', value: 'VIIRS_SNPP_CorrectedReflectance_TrueColor' },
-  // Add more GIBS layers as needed
-];
+// The server composites at most 8 layers, the base included
+const MAX_OVERLAYS = 7;
 
-// Helper to log user actions to the backend
-async function logUserAction(action: string, details: any) {
-  try {
-    await fetch('/api/client-log', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        action,
-        details,
-        timestamp: new Date().toISOString(),
-      }),
-    });
-  } catch (e) {
-    // Ignore logging errors
-  }
+// Upstream failures (timeouts, throttling, an open circuit) come with a code and retryAfter seconds
+const RETRYABLE_UPSTREAM_CODES = ['UPSTREAM_RATE_LIMITED', 'UPSTREAM_UNAVAILABLE', 'UPSTREAM_ERROR', 'UPSTREAM_TIMEOUT'];
+const MAX_AUTO_RETRIES = 2;
+
+function upstreamMessage(data: any, fallback: string) {
+  if (!data?.error) return fallback;
+  return data.code?.startsWith('UPSTREAM_') && data.retryAfter ? `${data.error}, try again in ${data.retryAfter}s.` : data.error;
+}
+
+// Every user action gets an id; API calls made after it send it as x-action-id,
+// so the server log lines they produce can be traced back to the click
+let lastActionId: string | undefined;
+const newId = () => Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+
+// fetch() for our own API routes, tagged with a request id and the last action id.
+// Other origins get a plain fetch: the ids are internal and would force a CORS preflight.
+function apiFetch(url: string, init: RequestInit = {}) {
+  if (!url.startsWith('/api/')) return fetch(url, init);
+  const headers = new Headers(init.headers);
+  headers.set('x-request-id', newId());
+  if (lastActionId) headers.set('x-action-id', lastActionId);
+  return fetch(url, { ...init, headers });
+}
+
+// Log a user action; events are batched to /api/client-log and kept while offline
+function logUserAction(action: string, details: any) {
+  const actionId = newId();
+  lastActionId = actionId;
+  queueClientLog({ action, actionId, details, timestamp: new Date().toISOString() });
 }
 
 const InteractiveMapExplorer = ({ onBack }: { onBack: () => void }) => {
@@ -73,22 +91,117 @@ const InteractiveMapExplorer = ({ onBack }: { onBack: () => void }) => {
   const [availableDates, setAvailableDates] = useState<string[]>([]); // For NASA
   const [closestDate, setClosestDate] = useState<string | null>(null); // For NASA
   const [availableScenes, setAvailableScenes] = useState<any[]>([]); // For Copernicus
+  const [sceneListTitle, setSceneListTitle] = useState('Available Scenes (±7 days)');
+  const [searchFrom, setSearchFrom] = useState<string>(new Date(Date.now() - 90 * 86400000).toISOString().slice(0, 10));
+  const [searchTo, setSearchTo] = useState<string>(new Date().toISOString().slice(0, 10));
+  const [sceneSort, setSceneSort] = useState('-datetime');
+  const [tileId, setTileId] = useState('');
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [nextAvailable, setNextAvailable] = useState<string | null>(null);
   const [prevAvailable, setPrevAvailable] = useState<string | null>(null);
   const [selectedScene, setSelectedScene] = useState<any | null>(null); // For Copernicus fetch
+  const [hoveredSceneId, setHoveredSceneId] = useState<string | null>(null); // Highlighted in the list and on the map
   const [theme, setTheme] = useState<'dark' | 'light'>('dark');
   const [cloudCoverFilter, setCloudCoverFilter] = useState(100);
+  const [localCloudCover, setLocalCloudCover] = useState(false); // Judge scenes by the clouds over the AOI, not the whole tile
   const [dim, setDim] = useState(0.2); // For NASA only
   const mapRef = useRef<any>(null);
   const [exploreCollapsed, setExploreCollapsed] = useState(true);
   const [sourceCollapsed, setSourceCollapsed] = useState(true);
   const [showPrompt, setShowPrompt] = useState(true);
   const [showExpandHint, setShowExpandHint] = useState(true);
-  const [gibsLayer, setGibsLayer] = useState<string>('MODIS_Terra_CorrectedReflectance_TrueColor');
-  const [gibsPreviewUrl, setGibsPreviewUrl] = useState<string | null>(null);
-  const [gibsPreviewError, setGibsPreviewError] = useState<string | null>(null);
-  const [gibsActualDate, setGibsActualDate] = useState<string | null>(null);
+  const [providers, setProviders] = useState<ProviderCapabilities[]>([]);
+  const [layers, setLayers] = useState<LayerInfo[]>([]); // For providers with layers (GIBS)
+  const [layer, setLayer] = useState<string>(''); // Empty means the provider's default layer
+  const [selectedLayer, setSelectedLayer] = useState<LayerInfo | null>(null);
+  const [layerSearch, setLayerSearch] = useState('');
+  const [layerTotal, setLayerTotal] = useState(0);
+  const [liveLayer, setLiveLayer] = useState(false); // Draw the chosen layer on the map as tiles
+  const [liveDates, setLiveDates] = useState<string[]>([]);
+  const [liveDateIndex, setLiveDateIndex] = useState(0);
+  const [overlays, setOverlays] = useState<{ layer: LayerInfo; opacity: number; visible: boolean }[]>([]); // Stacked above the base layer, bottom first
+  const [collection, setCollection] = useState<string>('sentinel-2-l2a'); // For providers with collections (Copernicus)
+  const [orbitDirection, setOrbitDirection] = useState<string>(''); // Sentinel-1 only; empty means any
+  const [polarization, setPolarization] = useState<string>('');
+  const [product, setProduct] = useState<string>('true-color'); // For providers with products (Copernicus)
+  const [customEvalscript, setCustomEvalscript] = useState<string>('');
+  const [renderedProduct, setRenderedProduct] = useState<string | null>(null);
+  const [compositeMode, setCompositeMode] = useState<string>(''); // '' renders the selected scene
+  const [compositeInfo, setCompositeInfo] = useState<string | null>(null);
+  const [downloadingGeoTiff, setDownloadingGeoTiff] = useState(false);
+  const [aoiMode, setAoiMode] = useState<AoiMode>('point');
+  const [aoi, setAoi] = useState<PolygonGeometry | null>(null);
+  const [drawingPoints, setDrawingPoints] = useState<[number, number][]>([]); // [lat, lon] while drawing
+  const [timelapseCollapsed, setTimelapseCollapsed] = useState(true);
+  const [timelapseStart, setTimelapseStart] = useState<string>(new Date(Date.now() - 90 * 86400000).toISOString().slice(0, 10));
+  const [timelapseEnd, setTimelapseEnd] = useState<string>(new Date().toISOString().slice(0, 10));
+  const [cadenceDays, setCadenceDays] = useState(7);
+  const [animationFormat, setAnimationFormat] = useState<'gif' | 'webp'>('gif');
+  const [creatingTimelapse, setCreatingTimelapse] = useState(false);
+  const [timelapseProgress, setTimelapseProgress] = useState<string | null>(null);
+  const [compareCollapsed, setCompareCollapsed] = useState(true);
+  const [compareSource, setCompareSource] = useState<string>('nasa');
+  const [compareDate, setCompareDate] = useState<string>(new Date(Date.now() - 30 * 86400000).toISOString().slice(0, 10));
+  const [comparing, setComparing] = useState(false);
+  const [compareImages, setCompareImages] = useState<{ left: CompareImage; right: CompareImage } | null>(null);
+  const [compareError, setCompareError] = useState<string | null>(null);
+  const [detectingChanges, setDetectingChanges] = useState(false);
+  const [changeResult, setChangeResult] = useState<any | null>(null);
+  const [timelapseResult, setTimelapseResult] = useState<{ id: string; frames: string[]; animation: string; zip: string } | null>(null);
+  const [statisticsCollapsed, setStatisticsCollapsed] = useState(true);
+  const [statisticsIndex, setStatisticsIndex] = useState('ndvi'); // 'custom' aggregates statisticsEvalscript
+  const [statisticsEvalscript, setStatisticsEvalscript] = useState('');
+  const [statisticsInterval, setStatisticsInterval] = useState('weekly');
+  const [statisticsFrom, setStatisticsFrom] = useState<string>(new Date(Date.now() - 365 * 86400000).toISOString().slice(0, 10));
+  const [statisticsTo, setStatisticsTo] = useState<string>(new Date().toISOString().slice(0, 10));
+  const [computingStatistics, setComputingStatistics] = useState(false);
+  const [statisticsResult, setStatisticsResult] = useState<IndexStatisticsResult | null>(null);
+  const [statisticsError, setStatisticsError] = useState<string | null>(null);
+  const activeProvider = providers.find(p => p.id === source);
+  const activeCollection = activeProvider?.collections?.find(c => c.value === collection);
+  const productOptions = activeCollection?.products ?? activeProvider?.products;
+  // Composites cover the search range, so no scene has to be picked
+  const compositeActive = !!compositeMode && !!activeCollection?.cloudMask && product !== 'custom';
+
+  // Load provider capabilities once; they drive the source-specific controls
+  React.useEffect(() => {
+    apiFetch('/api/imagery?action=providers')
+      .then(res => res.json())
+      .then(data => setProviders(data.providers || []))
+      .catch(() => setProviders([]));
+  }, []);
+
+  // Layer catalogs can be large; search server-side and show the first matches
+  React.useEffect(() => {
+    setLayers([]);
+    if (!activeProvider?.supportsLayers) return;
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({ provider: activeProvider.id, action: 'layers', q: layerSearch, limit: '50' });
+      apiFetch(`/api/imagery?${params.toString()}`)
+        .then(res => res.json())
+        .then(data => {
+          setLayers(data.layers || []);
+          setLayerTotal(data.total || 0);
+        })
+        .catch(() => setLayers([]));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [activeProvider?.id, activeProvider?.supportsLayers, layerSearch]);
+
+  // The live layer's date slider only offers dates the layer advertises; start at the selected date
+  React.useEffect(() => {
+    setLiveDates([]);
+    if (!liveLayer || !activeProvider?.supportsTiles) return;
+    const params = new URLSearchParams({ action: 'available-dates', layer: layer || activeProvider.defaultLayer || '' });
+    apiFetch(`/api/fetch-gibs-image?${params.toString()}`)
+      .then(res => res.json())
+      .then(data => {
+        const dates: string[] = data.availableDates || [];
+        setLiveDates(dates);
+        setLiveDateIndex(Math.max(dates.filter(d => d <= date).length - 1, 0));
+      })
+      .catch(() => setLiveDates([]));
+  }, [liveLayer, activeProvider?.id, layer]);
 
   React.useEffect(() => {
     if (!exploreCollapsed || !sourceCollapsed) {
@@ -122,20 +235,188 @@ const InteractiveMapExplorer = ({ onBack }: { onBack: () => void }) => {
     setShowResults(true);
   };
 
+  // Store a drawn AOI and move the center point to its middle
+  const finishAoi = (polygon: PolygonGeometry) => {
+    const { lat, lon } = bboxCenter(bboxOfPolygon(polygon));
+    setAoi(polygon);
+    setDrawingPoints([]);
+    setCenter([lat, lon]);
+    logUserAction('draw_aoi', { mode: aoiMode, aoi: polygon });
+  };
+
+  const finishPolygon = () => {
+    // A double-click also fires two clicks; drop the repeated vertices
+    const points = drawingPoints.filter((p, i) => i === 0 || p[0] !== drawingPoints[i - 1][0] || p[1] !== drawingPoints[i - 1][1]);
+    if (points.length < 3) return;
+    const ring = points.map(([lat, lon]) => [lon, lat] as [number, number]);
+    finishAoi({ type: 'Polygon', coordinates: [[...ring, ring[0]]] });
+  };
+
+  const changeAoiMode = (mode: AoiMode) => {
+    setAoiMode(mode);
+    setDrawingPoints([]);
+    if (mode === 'point') setAoi(null);
+    logUserAction('change_aoi_mode', { mode });
+  };
+
   // Map click handler
   const MapEvents = () => {
-    useMapEvents({
+    const map = useMapEvents({
       click: (e: LeafletMouseEvent) => {
-        setCenter([e.latlng.lat, e.latlng.lng]);
-        logUserAction('map_click', { lat: e.latlng.lat, lon: e.latlng.lng });
+        const point: [number, number] = [e.latlng.lat, e.latlng.lng];
+        if (aoiMode === 'point') {
+          setCenter(point);
+          logUserAction('map_click', { lat: e.latlng.lat, lon: e.latlng.lng });
+          return;
+        }
+        if (aoiMode === 'rectangle') {
+          if (drawingPoints.length === 0) {
+            setDrawingPoints([point]);
+            return;
+          }
+          const [first] = drawingPoints;
+          const bbox: BBox = [Math.min(first[1], point[1]), Math.min(first[0], point[0]), Math.max(first[1], point[1]), Math.max(first[0], point[0])];
+          finishAoi(bboxToPolygon(bbox));
+          return;
+        }
+        setDrawingPoints(points => [...points, point]);
+      },
+      dblclick: () => {
+        if (aoiMode === 'polygon') finishPolygon();
       },
     });
+    React.useEffect(() => {
+      if (aoiMode === 'polygon') map.doubleClickZoom.disable();
+      else map.doubleClickZoom.enable();
+    }, [map]);
     return null;
   };
 
+  // Picking a scene (from the list or its footprint) fixes the acquisition and closes the list
+  const selectScene = (scene: any, from: 'list' | 'map') => {
+    setSelectedScene(scene);
+    setDate(scene.datetime.slice(0, 10));
+    setTime(scene.datetime.slice(11, 16));
+    setAvailability('');
+    setAvailableScenes([]);
+    setHoveredSceneId(null);
+    setErrorMsg(null);
+    setNextAvailable(null);
+    setPrevAvailable(null);
+    logUserAction('select_scene', { scene, from });
+  };
+
+  const quicklookUrl = (scene: any) => `/api/imagery?${new URLSearchParams({ provider: source, action: 'quicklook', acquisitionTime: scene.datetime, bbox: scene.bbox.join(','), ...(activeCollection ? { collection } : {}) }).toString()}`;
+
+  // Catalog footprint, or the scene bbox as a rectangle, in Leaflet [lat, lon] order
+  const sceneOutline = (scene: any): [number, number][] => {
+    if (scene.footprint) return scene.footprint.coordinates[0].map(([lon, lat]: number[]) => [lat, lon]);
+    const [minLon, minLat, maxLon, maxLat] = scene.bbox;
+    return [[minLat, minLon], [minLat, maxLon], [maxLat, maxLon], [maxLat, minLon]];
+  };
+
+  // Static layers have no dates; their tiles ignore the date
+  const liveDate = liveDates[liveDateIndex] || date;
+
+  const stepLiveDate = (offset: number) => {
+    const next = Math.min(Math.max(liveDateIndex + offset, 0), liveDates.length - 1);
+    setLiveDateIndex(next);
+    logUserAction('change_live_date', { source, layer, date: liveDates[next] });
+  };
+
+  // Base layer plus visible overlays as `id[:opacity]`, bottom first; null without overlays
+  const visibleOverlays = overlays.filter(o => o.visible);
+  const layerStack = activeProvider?.supportsLayerStack && visibleOverlays.length > 0
+    ? [layer || activeProvider.defaultLayer, ...visibleOverlays.map(o => `${o.layer.value}:${o.opacity}`)].join(',')
+    : null;
+
+  const addOverlay = (opt: LayerInfo) => {
+    if (overlays.some(o => o.layer.value === opt.value) || overlays.length >= MAX_OVERLAYS) return;
+    setOverlays([...overlays, { layer: opt, opacity: 1, visible: true }]);
+    logUserAction('add_overlay', { source, layer: opt.value });
+  };
+
+  const updateOverlay = (index: number, changes: Partial<{ opacity: number; visible: boolean }>) => {
+    setOverlays(overlays.map((o, i) => (i === index ? { ...o, ...changes } : o)));
+  };
+
+  const moveOverlay = (index: number, offset: number) => {
+    const next = [...overlays];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setOverlays(next);
+    logUserAction('reorder_overlays', { source, layers: next.map(o => o.layer.value) });
+  };
+
+  const removeOverlay = (index: number) => {
+    logUserAction('remove_overlay', { source, layer: overlays[index].layer.value });
+    setOverlays(overlays.filter((_, i) => i !== index));
+  };
+
+  // Query string shared by the availability check and the image fetch
+  const buildImageryParams = (action: string, extra: Record<string, string> = {}) => new URLSearchParams({
+    provider: source,
+    action,
+    lat: center[0].toString(),
+    lon: center[1].toString(),
+    date,
+    time,
+    timezone,
+    resolution,
+    dim: dim.toString(),
+    ...(activeProvider?.supportsLayers ? { layer } : {}),
+    ...(layerStack ? { layers: layerStack } : {}),
+    ...(activeCollection ? { collection } : {}),
+    ...(activeCollection?.filters.includes('orbitDirection') && orbitDirection ? { orbitDirection } : {}),
+    ...(activeCollection?.filters.includes('polarization') && polarization ? { polarization } : {}),
+    ...(productOptions && product !== 'custom' ? { product } : {}),
+    // Cloud cover is filtered by the catalog search
+    ...(activeCollection?.cloudCover && cloudCoverFilter < 100 ? { maxCloudCover: cloudCoverFilter.toString() } : {}),
+    ...(activeCollection?.cloudMask && localCloudCover ? { localCloudCover: '1' } : {}),
+    ...(aoi ? { aoi: JSON.stringify(aoi) } : {}),
+    ...extra,
+  });
+
+  // Scenes and products differ per collection, so switching starts over
+  const handleCollectionChange = (value: string) => {
+    const next = activeProvider?.collections?.find(c => c.value === value);
+    setCollection(value);
+    if (next && product !== 'custom') setProduct(next.defaultProduct);
+    if (next && statisticsIndex !== 'custom' && !next.indices.includes(statisticsIndex)) setStatisticsIndex(next.indices[0] || 'custom');
+    setAvailableScenes([]);
+    setSelectedScene(null);
+    setAvailability(null);
+    logUserAction('change_collection', { source, collection: value });
+  };
+
+  // Every scene in the search range, filtered and sorted by the catalog
+  const handleSearchScenes = async () => {
+    logUserAction('search_scenes', { center, source, collection, aoi, searchFrom, searchTo, sceneSort, tileId, cloudCoverFilter });
+    setAvailability('Searching...');
+    setAvailableScenes([]);
+    setSelectedScene(null);
+    setErrorMsg(null);
+    try {
+      const params = buildImageryParams('search', { from: searchFrom, to: searchTo, sort: sceneSort, ...(tileId ? { tileId } : {}) });
+      const res = await apiFetch(`/api/imagery?${params.toString()}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setAvailability(upstreamMessage(data, 'Error searching scenes.'));
+        setErrorMsg(upstreamMessage(data, 'Error searching scenes.'));
+        return;
+      }
+      setAvailableScenes(data.scenes);
+      setSceneListTitle(`Scenes ${searchFrom} – ${searchTo}${data.truncated ? ` (first ${data.scenes.length} of ${data.total ?? 'more'})` : ''}:`);
+      setAvailability(`Found ${data.total ?? `${data.scenes.length}+`} scene(s).`);
+      if (data.scenes.length === 0) setErrorMsg('No scenes match the search.');
+    } catch (err) {
+      setAvailability('Error searching scenes.');
+      setErrorMsg('Error searching scenes.');
+    }
+  };
+
   // Check Availability handler
   const handleCheckAvailability = async () => {
-    logUserAction('check_availability', { center, date, time, timezone, source, resolution, dim });
+    logUserAction('check_availability', { center, date, time, timezone, source, resolution, dim, layer, aoi });
     setAvailability('Checking...');
     setAvailableDates([]);
     setClosestDate(null);
@@ -145,275 +426,346 @@ const InteractiveMapExplorer = ({ onBack }: { onBack: () => void }) => {
     setErrorMsg(null);
     setNextAvailable(null);
     setPrevAvailable(null);
-    setGibsPreviewUrl(null);
-    setGibsPreviewError(null);
-    if (source === 'nasa') {
-      // NASA: GET with params
-      const params = new URLSearchParams({
-        lat: center[0].toString(),
-        lon: center[1].toString(),
-        date,
-        resolution,
-        dim: dim.toString(),
-      });
-      try {
-        const res = await fetch(`/api/fetch-image?${params.toString()}`);
-        if (res.ok) {
-          setAvailability('Imagery available!');
+    try {
+      const res = await apiFetch(`/api/imagery?${buildImageryParams('availability').toString()}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setAvailability(upstreamMessage(data, 'Error checking availability.'));
+        setErrorMsg(upstreamMessage(data, 'Error checking availability.'));
+        return;
+      }
+      if (activeProvider?.requiresScene) {
+        const scenes = data.scenes || [];
+        setAvailableScenes(scenes);
+        setSceneListTitle('Available Scenes (±7 days)');
+        setAvailability(`Found ${scenes.length} scene(s).`);
+        if (scenes.length === 0) {
+          setErrorMsg(cloudCoverFilter < 100 ? 'No scenes match the cloud cover filter.' : 'No imagery available for this date/location.');
+          setSelectedScene(null);
         } else {
-          const data = await res.json();
-          setAvailability(data.error || 'No imagery available for this date/location.');
-          setAvailableDates(data.availableDates || []);
-          setClosestDate(data.closestDate || null);
-          setErrorMsg(data.error || null);
-          // Find next and previous available dates
-          if (data.availableDates && data.availableDates.length > 0) {
-            const sorted = [...data.availableDates].sort();
-            const idx = sorted.findIndex((d: string) => d === data.closestDate);
-            setPrevAvailable(idx > 0 ? sorted[idx - 1] : null);
-            setNextAvailable(idx >= 0 && idx < sorted.length - 1 ? sorted[idx + 1] : null);
-          }
+          // Auto-select the closest scene to the requested date
+          const closestTime = findClosestDate(scenes.map((s: any) => s.datetime), date);
+          const closest = scenes.find((s: any) => s.datetime === closestTime);
+          setSelectedScene(closest);
+          logUserAction('auto_select_scene', { scene: closest });
+          setErrorMsg('Select a scene to fetch image, or use the closest auto-selected.');
         }
-      } catch (err) {
-        setAvailability('Error checking availability.');
-        setErrorMsg('Error checking availability.');
+        return;
       }
-    } else if (source === 'gibs') {
-      // GIBS: fetch preview tile for center, zoom 8
-      const z = 8;
-      const lat = center[0];
-      const lon = center[1];
-      const n = Math.pow(2, z);
-      const x = Math.floor((lon + 180) / 360 * n);
-      const y = Math.floor((1 - Math.log(Math.tan(lat * Math.PI / 180) + 1 / Math.cos(lat * Math.PI / 180)) / Math.PI) / 2 * n);
-      const tileUrl = `/api/fetch-gibs-image?layer=${gibsLayer}&date=${date}&z=${z}&x=${x}&y=${y}`;
-      logUserAction('gibs_preview_tile', { tileUrl, center, date, gibsLayer, z, x, y });
-      // Fetch available dates for the layer
-      try {
-        const datesRes = await fetch(`/api/fetch-gibs-image?action=available-dates&layer=${gibsLayer}`);
-        let actualDate = date;
-        if (datesRes.ok) {
-          const datesData = await datesRes.json();
-          if (datesData.availableDates && datesData.availableDates.length > 0) {
-            // Find closest date <= requested date
-            const requested = new Date(date);
-            let closest = datesData.availableDates[0];
-            let minDiff = Math.abs(new Date(closest).getTime() - requested.getTime());
-            for (const d of datesData.availableDates) {
-              const diff = Math.abs(new Date(d).getTime() - requested.getTime());
-              if (diff < minDiff) {
-                closest = d;
-                minDiff = diff;
-              }
-            }
-            actualDate = closest;
-          }
-        }
-        setGibsActualDate(actualDate);
-        logUserAction('gibs_actual_image_date', { requested: date, actual: actualDate, gibsLayer });
-      } catch (err) {
-        setGibsActualDate(null);
+      const dates: string[] = data.availableDates || [];
+      if (dates.some(d => d.slice(0, 10) === date)) {
+        setAvailability('Imagery available!');
+        return;
       }
-      // Fetch the tile as before
-      try {
-        const res = await fetch(tileUrl);
-        if (res.ok) {
-          const blob = await res.blob();
-          const url = URL.createObjectURL(blob);
-          setGibsPreviewUrl(url);
-          setGibsPreviewError(null);
-          setAvailability('GIBS tile available!');
-        } else {
-          setGibsPreviewUrl(null);
-          setGibsPreviewError('No tile available for this layer/date/position.');
-          setAvailability('No GIBS tile available.');
-        }
-      } catch (err) {
-        setGibsPreviewUrl(null);
-        setGibsPreviewError('Error fetching GIBS tile.');
-        setAvailability('Error fetching GIBS tile.');
+      setAvailability('No imagery available for this date/location.');
+      setErrorMsg(dates.length > 0 ? null : 'No imagery available for this date/location.');
+      setAvailableDates(dates);
+      setClosestDate(data.closestDate || null);
+      // Find next and previous available dates
+      if (dates.length > 0) {
+        const sorted = [...dates].sort();
+        const idx = sorted.findIndex((d: string) => d === data.closestDate);
+        setPrevAvailable(idx > 0 ? sorted[idx - 1] : null);
+        setNextAvailable(idx >= 0 && idx < sorted.length - 1 ? sorted[idx + 1] : null);
       }
-    } else {
-      // Copernicus: POST to /api/fetch-copernicus-image/copernicus-availability
-      try {
-        const res = await fetch('/api/fetch-copernicus-image/copernicus-availability', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            lat: center[0],
-            lon: center[1],
-            date,
-            time,
-            timezone,
-            resolution,
-            dim,
-          }),
-        });
-        const data = await res.json();
-        if (res.ok && data.scenes && data.scenes.length > 0) {
-          // Filter by cloud cover
-          const filtered = data.scenes.filter((s: any) => (s.cloudCover ?? 100) <= cloudCoverFilter);
-          setAvailableScenes(filtered);
-          if (filtered.length > 0) {
-            // Auto-select the closest scene to the requested date
-            const requestedTime = new Date(date).getTime();
-            let closest = filtered[0];
-            let minDiff = Math.abs(new Date(filtered[0].datetime).getTime() - requestedTime);
-            for (const scene of filtered) {
-              const diff = Math.abs(new Date(scene.datetime).getTime() - requestedTime);
-              if (diff < minDiff) {
-                closest = scene;
-                minDiff = diff;
-              }
-            }
-            setSelectedScene(closest);
-            logUserAction('auto_select_scene', { scene: closest });
-            setErrorMsg('Select a scene to fetch image, or use the closest auto-selected.');
-          } else {
-            setErrorMsg('No scenes match the cloud cover filter.');
-            setSelectedScene(null);
-          }
-        } else {
-          setErrorMsg('No imagery available for this date/location.');
-          setAvailableScenes([]);
-          setSelectedScene(null);
-        }
-      } catch (err) {
-        setAvailability('Error checking availability.');
-        setErrorMsg('Error checking availability.');
+    } catch (err) {
+      setAvailability('Error checking availability.');
+      setErrorMsg('Error checking availability.');
+    }
+  };
+
+  // Image request for the current controls; `extra` adds e.g. format=geotiff
+  const requestImage = (extra: Record<string, string> = {}) => {
+    const sceneParams: Record<string, string> = compositeActive
+      ? { composite: compositeMode, from: searchFrom, to: searchTo }
+      : activeProvider?.requiresScene && selectedScene ? { acquisitionTime: selectedScene.datetime } : {};
+    const url = `/api/imagery?${buildImageryParams('image', { ...sceneParams, ...extra }).toString()}`;
+    // Custom evalscripts are POSTed so they are validated server-side before forwarding
+    if (product === 'custom' && activeProvider?.supportsCustomScripts) {
+      return apiFetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ evalscript: customEvalscript }) });
+    }
+    return apiFetch(url);
+  };
+
+  // Download GeoTIFF handler
+  const handleDownloadGeoTiff = async () => {
+    logUserAction('download_geotiff', { center, date, source, resolution, selectedScene, layer, product, aoi });
+    setDownloadingGeoTiff(true);
+    try {
+      const res = await requestImage({ format: 'geotiff' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setErrorMsg(upstreamMessage(data, 'GeoTIFF export failed.'));
+        return;
       }
+      const disposition = res.headers.get('Content-Disposition') || '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `${source}-${date}.tif`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setErrorMsg('GeoTIFF export failed.');
+    } finally {
+      setDownloadingGeoTiff(false);
     }
   };
 
   // Fetch Image handler
   const handleFetchImage = async () => {
-    logUserAction('fetch_image', { center, date, time, timezone, source, resolution, selectedScene, dim });
+    logUserAction('fetch_image', { center, date, time, timezone, source, resolution, selectedScene, dim, layer, product, aoi, compositeMode: compositeActive ? compositeMode : undefined });
+    if (activeProvider?.requiresScene && !compositeActive && (!selectedScene || !selectedScene.datetime)) {
+      setImageMeta('Please select a valid scene.');
+      return;
+    }
     setFetchingImage(true);
     setImageUrl(null);
     setImageMeta(null);
+    setRenderedProduct(null);
+    setCompositeInfo(null);
     setAvailability(null);
-    setGibsPreviewUrl(null);
-    setGibsPreviewError(null);
-    if (source === 'copernicus') {
-      if (!selectedScene || !selectedScene.datetime) {
-        setImageMeta('Please select a valid scene.');
-        setFetchingImage(false);
-        return;
-      }
-      const endpoint = '/api/fetch-copernicus-image';
-      const params = new URLSearchParams({
-        lat: center[0].toString(),
-        lon: center[1].toString(),
-        acquisitionTime: selectedScene.datetime,
-        resolution,
-        dim: dim.toString(),
-      });
-      try {
-        const res = await fetch(`${endpoint}?${params.toString()}`);
-        if (res.ok) {
-          const blob = await res.blob();
-          const url = URL.createObjectURL(blob);
-          setImageUrl(url);
-          const meta = res.headers.get('x-image-metadata') || '';
-          setImageMeta(meta);
+    setErrorMsg(null);
+    await fetchImage(0);
+  };
+
+  // Throttled or briefly failing upstreams are retried after the wait the server suggests
+  const fetchImage = async (retries: number) => {
+    let retrying = false;
+    try {
+      const res = await requestImage();
+      if (res.ok) {
+        const blob = await res.blob();
+        setImageUrl(URL.createObjectURL(blob));
+        const range = res.headers.get('x-composite-range');
+        const meta = range ? range.split('/').map(d => d.slice(0, 10)).join(' – ') : res.headers.get('x-image-metadata') || '';
+        setImageMeta(meta);
+        setRenderedProduct(res.headers.get('x-copernicus-product'));
+        if (range) {
+          setCompositeInfo(`${res.headers.get('x-composite-method')} of ${res.headers.get('x-composite-scene-count')} scene(s), ${res.headers.get('x-composite-cloud-percent')}% still cloudy`);
+        }
+      } else {
+        const data = await res.json().catch(() => ({}));
+        setImageUrl(null);
+        if (RETRYABLE_UPSTREAM_CODES.includes(data.code) && retries < MAX_AUTO_RETRIES) {
+          const wait = Math.min(data.retryAfter ?? 5, 60);
+          retrying = true;
+          setImageMeta(`${data.error}, retrying in ${wait}s...`);
+          logUserAction('auto_retry_image', { source, code: data.code, wait, retries });
+          setTimeout(() => fetchImage(retries + 1), wait * 1000);
+        } else if (data.code?.startsWith('UPSTREAM_') || res.status === 400) {
+          setImageMeta(upstreamMessage(data, 'Invalid request.'));
         } else {
-          setImageUrl(null);
           setImageMeta('No image available for this date/location.');
         }
-      } catch (err) {
-        setImageUrl(null);
-        setImageMeta('Error fetching image.');
-      } finally {
-        setFetchingImage(false);
       }
-      return;
+    } catch (err) {
+      setImageUrl(null);
+      setImageMeta('Error fetching image.');
+    } finally {
+      if (!retrying) setFetchingImage(false);
     }
-    if (source === 'gibs') {
-      // GIBS: fetch preview tile for center, zoom 8
-      const z = 8;
-      const lat = center[0];
-      const lon = center[1];
-      const n = Math.pow(2, z);
-      const x = Math.floor((lon + 180) / 360 * n);
-      const y = Math.floor((1 - Math.log(Math.tan(lat * Math.PI / 180) + 1 / Math.cos(lat * Math.PI / 180)) / Math.PI) / 2 * n);
-      const tileUrl = `/api/fetch-gibs-image?layer=${gibsLayer}&date=${date}&z=${z}&x=${x}&y=${y}`;
-      logUserAction('gibs_fetch_tile', { tileUrl, center, date, gibsLayer, z, x, y });
-      // Fetch available dates for the layer
-      try {
-        const datesRes = await fetch(`/api/fetch-gibs-image?action=available-dates&layer=${gibsLayer}`);
-        let actualDate = date;
-        if (datesRes.ok) {
-          const datesData = await datesRes.json();
-          if (datesData.availableDates && datesData.availableDates.length > 0) {
-            // Find closest date <= requested date
-            const requested = new Date(date);
-            let closest = datesData.availableDates[0];
-            let minDiff = Math.abs(new Date(closest).getTime() - requested.getTime());
-            for (const d of datesData.availableDates) {
-              const diff = Math.abs(new Date(d).getTime() - requested.getTime());
-              if (diff < minDiff) {
-                closest = d;
-                minDiff = diff;
-              }
-            }
-            actualDate = closest;
-          }
-        }
-        setGibsActualDate(actualDate);
-        logUserAction('gibs_actual_image_date', { requested: date, actual: actualDate, gibsLayer });
-      } catch (err) {
-        setGibsActualDate(null);
+  };
+
+  // One side of a comparison: same location/AOI, but its own provider and date
+  const fetchComparisonImage = async (providerId: string, day: string, acquisitionTime?: string): Promise<CompareImage> => {
+    const provider = providers.find(p => p.id === providerId);
+    const overrides: Record<string, string> = { provider: providerId, date: day };
+    const paramsFor = (action: string) => {
+      const params = buildImageryParams(action, overrides);
+      // Layers, collections and products belong to the active provider
+      if (providerId !== source) {
+        params.delete('layer');
+        params.delete('layers');
+        params.delete('collection');
+        params.delete('orbitDirection');
+        params.delete('polarization');
+        params.delete('product');
+        params.delete('maxCloudCover');
+        params.delete('localCloudCover');
       }
-      // Fetch the tile as before
-      try {
-        const res = await fetch(tileUrl);
-        if (res.ok) {
-          const blob = await res.blob();
-          const url = URL.createObjectURL(blob);
-          setGibsPreviewUrl(url);
-          setGibsPreviewError(null);
-          setAvailability('GIBS tile available!');
-        } else {
-          setGibsPreviewUrl(null);
-          setGibsPreviewError('No tile available for this layer/date/position.');
-          setAvailability('No GIBS tile available.');
-        }
-      } catch (err) {
-        setGibsPreviewUrl(null);
-        setGibsPreviewError('Error fetching GIBS tile.');
-        setAvailability('Error fetching GIBS tile.');
-      } finally {
-        setFetchingImage(false);
+      return params.toString();
+    };
+    if (provider?.requiresScene) {
+      // Scene-based providers need a concrete acquisition; use the closest scene to the day
+      if (acquisitionTime) {
+        overrides.acquisitionTime = acquisitionTime;
+      } else {
+        const res = await apiFetch(`/api/imagery?${paramsFor('availability')}`);
+        const data = await res.json();
+        if (!res.ok || !data.closestDate) throw new Error(upstreamMessage(data, `No ${provider.label} scene near ${day}.`));
+        overrides.acquisitionTime = data.closestDate;
       }
-      return;
     }
-    // NASA logic (unchanged)
-    const endpoint = '/api/fetch-image';
-    const params = new URLSearchParams({
-      lat: center[0].toString(),
-      lon: center[1].toString(),
-      date,
-      resolution,
-      dim: dim.toString(),
+    const res = await apiFetch(`/api/imagery?${paramsFor('image')}`);
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(upstreamMessage(data, `No ${provider?.label || providerId} image for ${day}.`));
+    }
+    const acquired = (res.headers.get('x-image-metadata') || day).slice(0, 10);
+    return { url: URL.createObjectURL(await res.blob()), label: `${provider?.label || providerId} ${acquired}` };
+  };
+
+  // Compare handler: left is the current source/date, right is the compare source/date
+  const handleCompare = async () => {
+    logUserAction('compare', { center, aoi, source, date, compareSource, compareDate, resolution });
+    setComparing(true);
+    setCompareError(null);
+    try {
+      const sceneTime = activeProvider?.requiresScene && selectedScene ? selectedScene.datetime : undefined;
+      const [left, right] = await Promise.all([
+        fetchComparisonImage(source, date, sceneTime),
+        fetchComparisonImage(compareSource, compareDate),
+      ]);
+      setCompareImages({ left, right });
+    } catch (err) {
+      setCompareError(err instanceof Error ? err.message : 'Comparison failed.');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  // Change detection between the current date and the compare date on the current source
+  const handleDetectChanges = async () => {
+    const [before, after] = [date, compareDate].sort();
+    logUserAction('detect_changes', { center, aoi, source, before, after, resolution });
+    setDetectingChanges(true);
+    setCompareError(null);
+    setChangeResult(null);
+    try {
+      const params = buildImageryParams('change-detection', { before, after });
+      const res = await apiFetch(`/api/change-detection?${params.toString()}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setCompareError(upstreamMessage(data, 'Change detection failed.'));
+        return;
+      }
+      setChangeResult(data);
+    } catch (err) {
+      setCompareError('Change detection failed.');
+    } finally {
+      setDetectingChanges(false);
+    }
+  };
+
+  const closeCompare = () => {
+    if (compareImages) {
+      URL.revokeObjectURL(compareImages.left.url);
+      URL.revokeObjectURL(compareImages.right.url);
+    }
+    setCompareImages(null);
+    logUserAction('close_compare', {});
+  };
+
+  // Timelapse handler: the server streams one JSON event per line while it fetches frames
+  const handleCreateTimelapse = async () => {
+    logUserAction('create_timelapse', { center, source, resolution, layer, product, aoi, timelapseStart, timelapseEnd, cadenceDays, animationFormat });
+    setCreatingTimelapse(true);
+    setTimelapseResult(null);
+    setTimelapseProgress('Starting...');
+    const params = buildImageryParams('timelapse', {
+      startDate: timelapseStart,
+      endDate: timelapseEnd,
+      cadenceDays: cadenceDays.toString(),
+      animation: animationFormat,
+      // Timelapse frames are capped at 1024 px
+      resolution: String(Math.min(Number(resolution), 1024)),
     });
     try {
-      const res = await fetch(`${endpoint}?${params.toString()}`);
-      if (res.ok) {
-        const blob = await res.blob();
-        const url = URL.createObjectURL(blob);
-        setImageUrl(url);
-        const meta = res.headers.get('x-image-metadata') || '';
-        setImageMeta(meta);
-      } else {
-        setImageUrl(null);
-        setImageMeta('No image available for this date/location.');
+      const res = await apiFetch(`/api/timelapse?${params.toString()}`);
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}));
+        setTimelapseProgress(upstreamMessage(data, 'Timelapse failed.'));
+        return;
+      }
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      let skipped = 0;
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+        for (const line of lines.filter(Boolean)) {
+          const event = JSON.parse(line);
+          if (event.type === 'start') setTimelapseProgress(`Fetching ${event.total} frame(s)...`);
+          if (event.type === 'frame') {
+            if (event.status === 'skipped') skipped++;
+            setTimelapseProgress(`Frame ${event.index}/${event.total} (${event.date})${skipped ? `, ${skipped} skipped` : ''}`);
+          }
+          if (event.type === 'complete') {
+            setTimelapseResult(event);
+            setTimelapseProgress(`Done: ${event.frames.length} frame(s)${skipped ? `, ${skipped} skipped` : ''}.`);
+          }
+          if (event.type === 'error') setTimelapseProgress(event.error);
+        }
       }
     } catch (err) {
-      setImageUrl(null);
-      setImageMeta('Error fetching image.');
+      setTimelapseProgress('Timelapse failed.');
+    } finally {
+      setCreatingTimelapse(false);
+    }
+  };
+
+  // Index statistics come from the Copernicus Statistical API whatever the image source
+  const requestStatistics = (format: 'json' | 'csv') => {
+    const params = buildImageryParams('statistics', { from: statisticsFrom, to: statisticsTo, interval: statisticsInterval, format });
+    params.set('index', statisticsIndex);
+    if (statisticsIndex === 'custom') {
+      return apiFetch(`/api/statistics?${params.toString()}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ evalscript: statisticsEvalscript }),
+      });
+    }
+    return apiFetch(`/api/statistics?${params.toString()}`);
+  };
+
+  const handleComputeStatistics = async () => {
+    logUserAction('compute_statistics', { center, collection, aoi, statisticsIndex, statisticsInterval, statisticsFrom, statisticsTo });
+    setComputingStatistics(true);
+    setStatisticsError(null);
+    setStatisticsResult(null);
+    try {
+      const res = await requestStatistics('json');
+      const data = await res.json();
+      if (!res.ok) {
+        setStatisticsError(upstreamMessage(data, 'Statistics failed.'));
+        return;
+      }
+      setStatisticsResult(data);
+    } catch (err) {
+      setStatisticsError('Statistics failed.');
     } finally {
-      setFetchingImage(false);
+      setComputingStatistics(false);
+    }
+  };
+
+  // JSON is saved from the last result; CSV is rendered by the server
+  const handleDownloadStatistics = async (format: 'json' | 'csv') => {
+    if (!statisticsResult) return;
+    logUserAction('download_statistics', { format, statisticsIndex, statisticsInterval });
+    let blob: Blob;
+    if (format === 'json') {
+      blob = new Blob([JSON.stringify(statisticsResult, null, 2)], { type: 'application/json' });
+    } else {
+      const res = await requestStatistics('csv');
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setStatisticsError(upstreamMessage(data, 'CSV export failed.'));
+        return;
+      }
+      blob = await res.blob();
     }
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${statisticsResult.collection}_${statisticsResult.index}_${statisticsResult.interval}_${statisticsFrom}_${statisticsTo}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
   const toggleTheme = () => {
@@ -482,6 +834,35 @@ const InteractiveMapExplorer = ({ onBack }: { onBack: () => void }) => {
             </div>
           )}
           <hr className="border-neutral-200 dark:border-neutral-800 my-1" />
+          <div className="mb-1 text-base font-bold tracking-tight font-[var(--font-fira-code)]">Area of Interest</div>
+          <div className="flex flex-col gap-2 mb-2">
+            <div className="flex gap-1">
+              {aoiModeOptions.map(opt => (
+                <button
+                  key={opt.value}
+                  className={`flex-1 px-2 py-1 rounded-sm text-xs font-medium border ${aoiMode === opt.value ? 'bg-blue-600 text-white border-blue-700' : 'bg-transparent border-neutral-300 dark:border-neutral-700 hover:bg-neutral-200 dark:hover:bg-neutral-800'} transition`}
+                  onClick={() => changeAoiMode(opt.value)}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+            <div className="text-xs text-neutral-500 dark:text-neutral-400">{aoiModeOptions.find(opt => opt.value === aoiMode)?.hint}</div>
+            {(aoi || drawingPoints.length > 0) && (
+              <div className="flex gap-2">
+                {aoiMode === 'polygon' && drawingPoints.length >= 3 && (
+                  <button className="px-2 py-1 rounded-sm text-xs bg-blue-700 text-white hover:bg-blue-500 transition" onClick={finishPolygon}>Finish polygon</button>
+                )}
+                <button
+                  className="px-2 py-1 rounded-sm text-xs bg-neutral-200 dark:bg-neutral-700 hover:bg-red-600 hover:text-white transition"
+                  onClick={() => { setAoi(null); setDrawingPoints([]); logUserAction('clear_aoi', {}); }}
+                >
+                  Clear AOI
+                </button>
+              </div>
+            )}
+          </div>
+          <hr className="border-neutral-200 dark:border-neutral-800 my-1" />
           <div className="mb-1 text-base font-bold tracking-tight font-[var(--font-fira-code)]">Date & Time</div>
           <div className="flex flex-col gap-2 mb-2">
             <label className="text-xs font-semibold mb-1">Date</label>
@@ -524,9 +905,12 @@ const InteractiveMapExplorer = ({ onBack }: { onBack: () => void }) => {
             <div className="flex flex-col gap-2 mb-2">
               <label className="text-xs font-semibold mb-1">Source</label>
               <select value={source} onChange={e => { setSource(e.target.value); logUserAction('change_source', { source: e.target.value }); }} className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm">
-                {sourceOptions.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                {providers.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
               </select>
-              {(source === 'nasa' || source === 'copernicus') && (
+              {activeProvider?.credentials === 'missing' && (
+                <div className="text-xs text-red-600 dark:text-red-400 font-semibold">{activeProvider.label} credentials are not configured on the server.</div>
+              )}
+              {activeProvider?.supportsDim && (
                 <div className="flex items-center gap-2 mt-2">
                   <label className="text-xs font-semibold">Field of View (dim):</label>
                   <input
@@ -541,18 +925,143 @@ const InteractiveMapExplorer = ({ onBack }: { onBack: () => void }) => {
                   <span className="text-xs text-neutral-500 dark:text-neutral-400">{dim}</span>
                 </div>
               )}
-              {source === 'gibs' && (
+              {activeProvider?.supportsLayers && (
+                <div className="flex flex-col gap-2 mt-2">
+                  <label className="text-xs font-semibold mb-1">{activeProvider.label} Layer</label>
+                  <div className="text-xs font-medium" title={selectedLayer?.value}>{selectedLayer ? selectedLayer.label : 'Default layer'}</div>
+                  {activeProvider.supportsTiles && (
+                    <label className="flex items-center gap-2 text-xs">
+                      <input
+                        type="checkbox"
+                        checked={liveLayer}
+                        onChange={e => { setLiveLayer(e.target.checked); logUserAction('toggle_live_layer', { source, layer, enabled: e.target.checked }); }}
+                      />
+                      Show live on map (with date slider)
+                    </label>
+                  )}
+                  <input
+                    type="text"
+                    value={layerSearch}
+                    onChange={e => setLayerSearch(e.target.value)}
+                    onBlur={() => logUserAction('search_layers', { source, q: layerSearch })}
+                    placeholder="Search layers (e.g. fires, snow, aerosol)..."
+                    className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm"
+                  />
+                  <div className="max-h-40 overflow-y-auto border border-neutral-200 dark:border-neutral-700 rounded-sm text-xs">
+                    {layers.map(opt => (
+                      <div
+                        key={opt.value}
+                        className={`px-2 py-1 cursor-pointer flex items-start gap-1 ${opt.value === layer ? 'bg-blue-600 text-white' : 'hover:bg-blue-50 dark:hover:bg-blue-900'}`}
+                        onClick={() => { setLayer(opt.value); setSelectedLayer(opt); logUserAction('change_layer', { source, layer: opt.value }); }}
+                        title={opt.value}
+                      >
+                        <div className="flex-1">
+                          <div className="font-medium">{opt.label}</div>
+                          {opt.description && <div className={opt.value === layer ? 'text-blue-100' : 'text-neutral-500 dark:text-neutral-400'}>{opt.description}</div>}
+                        </div>
+                        {activeProvider.supportsLayerStack && (
+                          <button
+                            className="px-1 rounded-sm border border-neutral-300 dark:border-neutral-700 hover:bg-neutral-200 dark:hover:bg-neutral-800 disabled:opacity-40"
+                            disabled={overlays.some(o => o.layer.value === opt.value) || overlays.length >= MAX_OVERLAYS}
+                            onClick={e => { e.stopPropagation(); addOverlay(opt); }}
+                            title="Add as overlay"
+                          >
+                            +
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                    {layers.length === 0 && <div className="px-2 py-1 text-neutral-500 dark:text-neutral-400">No matching layers.</div>}
+                  </div>
+                  {layerTotal > layers.length && <div className="text-xs text-neutral-500 dark:text-neutral-400">Showing {layers.length} of {layerTotal}; refine the search to see more.</div>}
+                  {selectedLayer?.legendUrl && <img src={selectedLayer.legendUrl} alt={`${selectedLayer.label} legend`} className="max-h-12 object-contain bg-white rounded-sm" />}
+                  {activeProvider.supportsLayerStack && (
+                    <div className="flex flex-col gap-1">
+                      <label className="text-xs font-semibold">Overlays (bottom to top)</label>
+                      {overlays.length === 0 && <div className="text-xs text-neutral-500 dark:text-neutral-400">Use + on a layer to draw it over the base layer.</div>}
+                      {overlays.map((o, i) => (
+                        <div key={o.layer.value} className="flex items-center gap-1 text-xs">
+                          <input
+                            type="checkbox"
+                            checked={o.visible}
+                            onChange={e => { updateOverlay(i, { visible: e.target.checked }); logUserAction('toggle_overlay', { source, layer: o.layer.value, visible: e.target.checked }); }}
+                            title="Show overlay"
+                          />
+                          <span className="flex-1 truncate" title={o.layer.value}>{o.layer.label}</span>
+                          <input
+                            type="range"
+                            min={0}
+                            max={1}
+                            step={0.1}
+                            value={o.opacity}
+                            onChange={e => updateOverlay(i, { opacity: parseFloat(e.target.value) })}
+                            className="w-16 h-2 bg-neutral-200 dark:bg-neutral-700 rounded-sm appearance-none cursor-pointer"
+                            title={`Opacity ${Math.round(o.opacity * 100)}%`}
+                          />
+                          <button className="px-1 disabled:opacity-40" disabled={i === 0} onClick={() => moveOverlay(i, -1)} title="Move down">↓</button>
+                          <button className="px-1 disabled:opacity-40" disabled={i === overlays.length - 1} onClick={() => moveOverlay(i, 1)} title="Move up">↑</button>
+                          <button className="px-1 hover:text-red-600" onClick={() => removeOverlay(i)} title="Remove overlay">×</button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+              {activeProvider?.collections && (
+                <div className="flex flex-col gap-2 mt-2">
+                  <label className="text-xs font-semibold mb-1">Collection</label>
+                  <select value={collection} onChange={e => handleCollectionChange(e.target.value)} title={activeCollection?.description} className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm">
+                    {activeProvider.collections.map(opt => <option key={opt.value} value={opt.value} title={opt.description}>{opt.label}</option>)}
+                  </select>
+                  {activeCollection?.filters.includes('orbitDirection') && (
+                    <select value={orbitDirection} onChange={e => { setOrbitDirection(e.target.value); logUserAction('change_orbit_direction', { orbitDirection: e.target.value }); }} className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm">
+                      <option value="">Any orbit direction</option>
+                      <option value="ASCENDING">Ascending</option>
+                      <option value="DESCENDING">Descending</option>
+                    </select>
+                  )}
+                  {activeCollection?.filters.includes('polarization') && (
+                    <select value={polarization} onChange={e => { setPolarization(e.target.value); logUserAction('change_polarization', { polarization: e.target.value }); }} className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm">
+                      <option value="">Any polarization</option>
+                      <option value="DV">VV + VH (DV)</option>
+                      <option value="SV">VV only (SV)</option>
+                      <option value="DH">HH + HV (DH)</option>
+                      <option value="SH">HH only (SH)</option>
+                    </select>
+                  )}
+                </div>
+              )}
+              {productOptions && (
                 <div className="flex flex-col gap-2 mt-2">
-                  <label className="text-xs font-semibold mb-1">GIBS Layer</label>
-                  <select value={gibsLayer} onChange={e => { setGibsLayer(e.target.value); logUserAction('change_gibs_layer', { gibsLayer: e.target.value }); }} className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm">
-                    {gibsLayerOptions.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                  <label className="text-xs font-semibold mb-1">Product</label>
+                  <select value={product} onChange={e => { setProduct(e.target.value); logUserAction('change_product', { source, collection, product: e.target.value }); }} className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm">
+                    {productOptions.map(opt => <option key={opt.value} value={opt.value} title={opt.description}>{opt.label}</option>)}
+                    {activeProvider?.supportsCustomScripts && <option value="custom">Custom evalscript</option>}
                   </select>
+                  {product === 'custom' && (
+                    <textarea
+                      value={customEvalscript}
+                      onChange={e => setCustomEvalscript(e.target.value)}
+                      onBlur={() => logUserAction('change_custom_evalscript', { length: customEvalscript.length })}
+                      placeholder={'//VERSION=3\nfunction setup() { ... }\nfunction evaluatePixel(sample) { ... }'}
+                      rows={6}
+                      className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-xs font-mono"
+                    />
+                  )}
+                  {activeCollection?.cloudMask && product !== 'custom' && (
+                    <select value={compositeMode} onChange={e => { setCompositeMode(e.target.value); logUserAction('change_composite_mode', { compositeMode: e.target.value }); }} title="Composites use the Search Range dates" className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm">
+                      <option value="">Selected scene</option>
+                      <option value="median">Cloud-free median (search range)</option>
+                      <option value="least-cloudy">Least-cloudy mosaic (search range)</option>
+                    </select>
+                  )}
                 </div>
               )}
               <label className="text-xs font-semibold mb-1">Resolution</label>
               <select value={resolution} onChange={e => { setResolution(e.target.value); logUserAction('change_resolution', { resolution: e.target.value }); }} className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm">
-                {resolutionOptions.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                {(activeProvider ? activeProvider.resolutions.map(r => ({ label: `${r}px`, value: r.toString() })) : resolutionOptions).map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
               </select>
+              {activeCollection?.cloudCover !== false && (<>
               <label className="text-xs font-semibold mb-1">Cloud Cover</label>
               <div className="flex items-center gap-2">
                 <input
@@ -565,6 +1074,39 @@ const InteractiveMapExplorer = ({ onBack }: { onBack: () => void }) => {
                 />
                 <span className="text-xs text-neutral-500 dark:text-neutral-400">{cloudCoverFilter}%</span>
               </div>
+              {activeCollection?.cloudMask && (
+                <label className="flex items-center gap-2 text-xs" title="Uses the scene classification over the drawn area instead of the whole 100 km tile; slower">
+                  <input type="checkbox" checked={localCloudCover} onChange={e => { setLocalCloudCover(e.target.checked); logUserAction('toggle_local_cloud_cover', { localCloudCover: e.target.checked }); }} />
+                  Measure clouds over my area
+                </label>
+              )}
+              </>)}
+              {activeProvider?.supportsSceneSearch && !activeCollection?.static && (
+                <div className="flex flex-col gap-2 mt-2">
+                  <label className="text-xs font-semibold mb-1">Search Range</label>
+                  <div className="flex items-center gap-2">
+                    <input type="date" value={searchFrom} max={searchTo} onChange={e => setSearchFrom(e.target.value)} className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent text-sm" />
+                    <span className="text-xs">to</span>
+                    <input type="date" value={searchTo} min={searchFrom} onChange={e => setSearchTo(e.target.value)} className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent text-sm" />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <select value={sceneSort} onChange={e => setSceneSort(e.target.value)} className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm">
+                      <option value="-datetime">Newest first</option>
+                      <option value="datetime">Oldest first</option>
+                      {activeCollection?.cloudCover && <option value="cloudCover">Least cloudy first</option>}
+                    </select>
+                    {activeCollection?.tileIdHint && (
+                      <input type="text" value={tileId} onChange={e => setTileId(e.target.value.trim())} placeholder={activeCollection.tileIdHint} title="Tile id" className="w-32 px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent text-sm" />
+                    )}
+                  </div>
+                  <button
+                    className="px-3 py-1 bg-yellow-200 dark:bg-yellow-800 text-neutral-900 dark:text-neutral-100 rounded-sm text-xs font-semibold hover:bg-yellow-300 transition"
+                    onClick={handleSearchScenes}
+                  >
+                    Search Range
+                  </button>
+                </div>
+              )}
             </div>
           )}
           <div className="flex gap-2 mt-2">
@@ -577,11 +1119,218 @@ const InteractiveMapExplorer = ({ onBack }: { onBack: () => void }) => {
             <button
               className="flex-1 px-3 py-2 bg-green-600 text-white rounded-sm font-semibold hover:bg-green-700 transition text-sm disabled:opacity-50 disabled:cursor-not-allowed"
               onClick={handleFetchImage}
-              disabled={fetchingImage || (source === 'copernicus' && (!selectedScene || !selectedScene.datetime))}
+              disabled={fetchingImage || (!!activeProvider?.requiresScene && !compositeActive && (!selectedScene || !selectedScene.datetime))}
             >
               {fetchingImage ? 'Fetching...' : 'Fetch Image'}
             </button>
           </div>
+          <hr className="border-neutral-200 dark:border-neutral-800 my-1" />
+          <div className="mb-1 text-base font-bold tracking-tight flex items-center justify-between font-[var(--font-fira-code)]">
+            <span>Compare</span>
+            <button
+              className="ml-2 p-1 rounded hover:bg-neutral-200 dark:hover:bg-neutral-800 transition"
+              onClick={() => { setCompareCollapsed(v => { logUserAction('toggle_compare_section', { collapsed: !v }); return !v; }); }}
+              aria-label={compareCollapsed ? 'Expand' : 'Collapse'}
+              tabIndex={0}
+            >
+              <svg className={`w-5 h-5 transition-transform ${compareCollapsed ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" /></svg>
+              {compareCollapsed && <span className="ml-2 text-xs italic text-neutral-400">expand</span>}
+            </button>
+          </div>
+          {!compareCollapsed && (
+            <div className="flex flex-col gap-2 mb-2">
+              <div className="text-xs text-neutral-500 dark:text-neutral-400">Compares the current source and date with:</div>
+              <div className="flex gap-2">
+                <select value={compareSource} onChange={e => { setCompareSource(e.target.value); logUserAction('change_compare_source', { compareSource: e.target.value }); }} className="flex-1 px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm">
+                  {providers.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+                <input
+                  type="date"
+                  value={compareDate}
+                  onChange={e => { setCompareDate(e.target.value); logUserAction('change_compare_date', { compareDate: e.target.value }); }}
+                  className="flex-1 px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm"
+                />
+              </div>
+              <button
+                className="px-3 py-2 bg-blue-600 text-white rounded-sm font-semibold hover:bg-blue-700 transition text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={handleCompare}
+                disabled={comparing}
+              >
+                {comparing ? 'Fetching both images...' : 'Compare'}
+              </button>
+              <button
+                className="px-3 py-2 bg-transparent border border-blue-600 text-blue-700 dark:text-blue-300 rounded-sm font-semibold hover:bg-blue-600 hover:text-white transition text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={handleDetectChanges}
+                disabled={detectingChanges || compareSource !== source || compareDate === date}
+                title={compareSource !== source ? 'Change detection needs the same source on both sides' : undefined}
+              >
+                {detectingChanges ? 'Detecting changes...' : 'Detect Changes'}
+              </button>
+              {changeResult && (
+                <div className="flex flex-col gap-1 text-xs">
+                  <div className="font-semibold">
+                    {changeResult.stats.percentChanged}% of the area changed ({changeResult.stats.method === 'ndvi' ? 'NDVI' : 'brightness'})
+                  </div>
+                  {changeResult.stats.method === 'ndvi' && (
+                    <div className="text-neutral-600 dark:text-neutral-300">
+                      Vegetation gain {changeResult.stats.percentNdviGain}%, loss {changeResult.stats.percentNdviLoss}%, mean NDVI change {changeResult.stats.meanNdviDelta.toFixed(3)}
+                    </div>
+                  )}
+                  <div className="text-neutral-500 dark:text-neutral-400">{changeResult.before.slice(0, 10)} → {changeResult.after.slice(0, 10)}; the change mask is shown on the map.</div>
+                  <div className="flex gap-2">
+                    {changeResult.images.ndviDelta && <a className="underline" href={changeResult.images.ndviDelta} download="ndvi-delta.png">NDVI delta</a>}
+                    <a className="underline" href={changeResult.images.brightnessDelta} download="brightness-delta.png">Brightness delta</a>
+                    <a className="underline" href={changeResult.images.changeMask} download="change-mask.png">Change mask</a>
+                    <button className="underline text-red-600 dark:text-red-400" onClick={() => { setChangeResult(null); logUserAction('clear_change_detection', {}); }}>Clear</button>
+                  </div>
+                </div>
+              )}
+              {compareError && <div className="text-xs text-red-600 dark:text-red-400 font-semibold">{compareError}</div>}
+            </div>
+          )}
+          <hr className="border-neutral-200 dark:border-neutral-800 my-1" />
+          <div className="mb-1 text-base font-bold tracking-tight flex items-center justify-between font-[var(--font-fira-code)]">
+            <span>Timelapse</span>
+            <button
+              className="ml-2 p-1 rounded hover:bg-neutral-200 dark:hover:bg-neutral-800 transition"
+              onClick={() => { setTimelapseCollapsed(v => { logUserAction('toggle_timelapse_section', { collapsed: !v }); return !v; }); }}
+              aria-label={timelapseCollapsed ? 'Expand' : 'Collapse'}
+              tabIndex={0}
+            >
+              <svg className={`w-5 h-5 transition-transform ${timelapseCollapsed ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" /></svg>
+              {timelapseCollapsed && <span className="ml-2 text-xs italic text-neutral-400">expand</span>}
+            </button>
+          </div>
+          {!timelapseCollapsed && (
+            <div className="flex flex-col gap-2 mb-2">
+              <div className="flex gap-2">
+                <div className="flex flex-col flex-1">
+                  <label className="text-xs font-semibold mb-1">From</label>
+                  <input
+                    type="date"
+                    value={timelapseStart}
+                    onChange={e => { setTimelapseStart(e.target.value); logUserAction('change_timelapse_start', { date: e.target.value }); }}
+                    className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm"
+                  />
+                </div>
+                <div className="flex flex-col flex-1">
+                  <label className="text-xs font-semibold mb-1">To</label>
+                  <input
+                    type="date"
+                    value={timelapseEnd}
+                    onChange={e => { setTimelapseEnd(e.target.value); logUserAction('change_timelapse_end', { date: e.target.value }); }}
+                    className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm"
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2 items-center">
+                <label className="text-xs font-semibold">Every</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={cadenceDays}
+                  onChange={e => { setCadenceDays(Math.max(1, parseInt(e.target.value) || 1)); logUserAction('change_cadence', { cadenceDays: e.target.value }); }}
+                  className="w-16 px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm"
+                />
+                <span className="text-xs">days as</span>
+                <select value={animationFormat} onChange={e => { setAnimationFormat(e.target.value as 'gif' | 'webp'); logUserAction('change_animation_format', { format: e.target.value }); }} className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm">
+                  <option value="gif">GIF</option>
+                  <option value="webp">WebP</option>
+                </select>
+              </div>
+              <button
+                className="px-3 py-2 bg-purple-600 text-white rounded-sm font-semibold hover:bg-purple-700 transition text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={handleCreateTimelapse}
+                disabled={creatingTimelapse}
+              >
+                {creatingTimelapse ? 'Creating...' : 'Create Timelapse'}
+              </button>
+              {timelapseProgress && <div className="text-xs text-neutral-600 dark:text-neutral-300">{timelapseProgress}</div>}
+              {timelapseResult && (
+                <div className="flex flex-col items-center gap-1">
+                  <img
+                    src={`/api/timelapse/${timelapseResult.id}?file=${timelapseResult.animation}`}
+                    alt="Timelapse"
+                    className="max-h-48 rounded-sm shadow border border-neutral-200 dark:border-neutral-700"
+                  />
+                  <div className="flex gap-2">
+                    <a className="px-2 py-1 rounded-sm text-xs bg-blue-700 text-white hover:bg-blue-500 transition" href={`/api/timelapse/${timelapseResult.id}?file=${timelapseResult.animation}`} download={`timelapse-${timelapseResult.id}.${animationFormat}`}>Download animation</a>
+                    <a className="px-2 py-1 rounded-sm text-xs bg-blue-700 text-white hover:bg-blue-500 transition" href={`/api/timelapse/${timelapseResult.id}?file=${timelapseResult.zip}`}>Download frames (ZIP)</a>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          <hr className="border-neutral-200 dark:border-neutral-800 my-1" />
+          <div className="mb-1 text-base font-bold tracking-tight flex items-center justify-between font-[var(--font-fira-code)]">
+            <span>Statistics</span>
+            <button
+              className="ml-2 p-1 rounded hover:bg-neutral-200 dark:hover:bg-neutral-800 transition"
+              onClick={() => { setStatisticsCollapsed(v => { logUserAction('toggle_statistics_section', { collapsed: !v }); return !v; }); }}
+              aria-label={statisticsCollapsed ? 'Expand' : 'Collapse'}
+              tabIndex={0}
+            >
+              <svg className={`w-5 h-5 transition-transform ${statisticsCollapsed ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" /></svg>
+              {statisticsCollapsed && <span className="ml-2 text-xs italic text-neutral-400">expand</span>}
+            </button>
+          </div>
+          {!statisticsCollapsed && (!activeCollection || activeCollection.static) && (
+            <div className="text-xs text-neutral-500 mb-2">Pick a Copernicus collection with acquisitions to compute index statistics over {aoi ? 'the area' : 'the view'}.</div>
+          )}
+          {!statisticsCollapsed && activeCollection && !activeCollection.static && (
+            <div className="flex flex-col gap-2 mb-2">
+              <div className="flex gap-2">
+                <div className="flex flex-col flex-1">
+                  <label className="text-xs font-semibold mb-1">From</label>
+                  <input type="date" value={statisticsFrom} max={statisticsTo} onChange={e => setStatisticsFrom(e.target.value)} className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm" />
+                </div>
+                <div className="flex flex-col flex-1">
+                  <label className="text-xs font-semibold mb-1">To</label>
+                  <input type="date" value={statisticsTo} min={statisticsFrom} onChange={e => setStatisticsTo(e.target.value)} className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm" />
+                </div>
+              </div>
+              <div className="flex gap-2 items-center">
+                <select value={statisticsIndex} onChange={e => { setStatisticsIndex(e.target.value); logUserAction('change_statistics_index', { index: e.target.value }); }} className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm">
+                  {activeCollection.indices.map(index => <option key={index} value={index}>{index.toUpperCase()}</option>)}
+                  <option value="custom">Custom evalscript</option>
+                </select>
+                <select value={statisticsInterval} onChange={e => { setStatisticsInterval(e.target.value); logUserAction('change_statistics_interval', { interval: e.target.value }); }} className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-sm">
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="monthly">Monthly</option>
+                </select>
+              </div>
+              {statisticsIndex === 'custom' && (
+                <textarea
+                  value={statisticsEvalscript}
+                  onChange={e => setStatisticsEvalscript(e.target.value)}
+                  placeholder="//VERSION=3 with a dataMask output"
+                  rows={6}
+                  className="px-2 py-1 border border-neutral-300 dark:border-neutral-700 rounded-sm bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400 text-xs font-mono"
+                />
+              )}
+              <button
+                className="px-3 py-2 bg-green-700 text-white rounded-sm font-semibold hover:bg-green-800 transition text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={handleComputeStatistics}
+                disabled={computingStatistics || (statisticsIndex === 'custom' && !statisticsEvalscript.trim())}
+              >
+                {computingStatistics ? 'Computing...' : `Compute over ${aoi ? 'area' : 'view'}`}
+              </button>
+              {statisticsError && <div className="text-xs text-red-600 dark:text-red-400 font-semibold">{statisticsError}</div>}
+              {statisticsResult && (
+                <div className="flex flex-col gap-1">
+                  <div className="text-xs text-neutral-600 dark:text-neutral-300">
+                    {statisticsResult.index.toUpperCase()}, {statisticsResult.intervals.filter(row => row.mean !== null).length} of {statisticsResult.intervals.length} interval(s) with data{statisticsResult.cloudsMasked ? ', clouds masked' : ''}
+                  </div>
+                  <StatisticsChart intervals={statisticsResult.intervals.filter(row => row.output === statisticsResult.intervals[0]?.output && row.band === statisticsResult.intervals[0]?.band)} percentiles={statisticsResult.percentiles} />
+                  <div className="flex gap-2">
+                    <button className="px-2 py-1 rounded-sm text-xs bg-blue-700 text-white hover:bg-blue-500 transition" onClick={() => handleDownloadStatistics('json')}>Download JSON</button>
+                    <button className="px-2 py-1 rounded-sm text-xs bg-blue-700 text-white hover:bg-blue-500 transition" onClick={() => handleDownloadStatistics('csv')}>Download CSV</button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
       {/* Map */}
@@ -589,16 +1338,74 @@ const InteractiveMapExplorer = ({ onBack }: { onBack: () => void }) => {
         <MapContainer ref={mapRef} center={center} zoom={8} style={{ width: '100%', height: '100%' }} scrollWheelZoom={true}>
           <TileLayer url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png" />
           <Marker position={center} icon={redMarker} />
+          {aoi && (
+            <Polygon positions={aoi.coordinates[0].map(([lon, lat]) => [lat, lon] as [number, number])} pathOptions={{ color: '#2563eb', weight: 2, fillOpacity: 0.1 }} />
+          )}
+          {drawingPoints.length > 0 && (
+            <>
+              <Polyline positions={drawingPoints} pathOptions={{ color: '#2563eb', dashArray: '4 4' }} />
+              {drawingPoints.map((p, i) => <CircleMarker key={i} center={p} radius={4} pathOptions={{ color: '#2563eb' }} />)}
+            </>
+          )}
+          {changeResult?.bounds && (
+            <ImageOverlay
+              url={changeResult.images.changeMask}
+              bounds={[[changeResult.bounds[1], changeResult.bounds[0]], [changeResult.bounds[3], changeResult.bounds[2]]]}
+            />
+          )}
+          {activeProvider?.requiresScene && availableScenes.filter((scene: any) => scene.footprint || scene.bbox).map((scene: any) => (
+            <Polygon
+              key={scene.id}
+              positions={sceneOutline(scene)}
+              pathOptions={hoveredSceneId === scene.id
+                ? { color: '#ea580c', weight: 3, dashArray: undefined, fillOpacity: 0.25, bubblingMouseEvents: false }
+                : { color: '#64748b', weight: 1, dashArray: '4 4', fillOpacity: 0.05, bubblingMouseEvents: false }}
+              eventHandlers={{
+                mouseover: () => setHoveredSceneId(scene.id),
+                mouseout: () => setHoveredSceneId(null),
+                click: () => selectScene(scene, 'map'),
+              }}
+            >
+              <Tooltip sticky>
+                {scene.datetime.slice(0, 16).replace('T', ' ')} · ☁️ {scene.localCloudCover !== undefined ? `${scene.localCloudCover.toFixed(0)}% here` : `${scene.cloudCover ?? 'N/A'}%`} · {scene.platform?.toUpperCase?.() || ''}
+              </Tooltip>
+            </Polygon>
+          ))}
           <MapEvents />
-          {source === 'gibs' && (
+          {liveLayer && activeProvider?.supportsTiles && (
             <TileLayer
-              url={`/api/fetch-gibs-image?layer=${gibsLayer}&date=${date}&z={z}&x={x}&y={y}`}
+              url={`/api/fetch-gibs-image?layer=${encodeURIComponent(layer)}${layerStack ? `&layers=${encodeURIComponent(layerStack)}` : ''}&date=${liveDate}&z={z}&x={x}&y={y}`}
               attribution="Imagery courtesy NASA EOSDIS GIBS"
               opacity={0.8}
+              maxNativeZoom={selectedLayer?.maxZoom ?? 9}
             />
           )}
         </MapContainer>
       </div>
+      {/* Live layer date slider */}
+      {liveLayer && activeProvider?.supportsTiles && liveDates.length > 0 && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-[9999] bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 text-neutral-900 dark:text-neutral-100 px-4 py-2 rounded-md shadow-md flex items-center gap-2">
+          <button className="px-2 py-1 rounded-sm text-xs border border-neutral-300 dark:border-neutral-700 hover:bg-neutral-200 dark:hover:bg-neutral-800 disabled:opacity-40" disabled={liveDateIndex === 0} onClick={() => stepLiveDate(-1)} title="Previous available date">◀</button>
+          <input
+            type="range"
+            min={0}
+            max={liveDates.length - 1}
+            value={liveDateIndex}
+            onChange={e => setLiveDateIndex(parseInt(e.target.value, 10))}
+            onMouseUp={() => logUserAction('change_live_date', { source, layer, date: liveDate })}
+            className="w-64 h-2 bg-neutral-200 dark:bg-neutral-700 rounded-sm appearance-none cursor-pointer"
+          />
+          <button className="px-2 py-1 rounded-sm text-xs border border-neutral-300 dark:border-neutral-700 hover:bg-neutral-200 dark:hover:bg-neutral-800 disabled:opacity-40" disabled={liveDateIndex === liveDates.length - 1} onClick={() => stepLiveDate(1)} title="Next available date">▶</button>
+          <span className="font-mono text-xs w-20 text-center">{liveDate}</span>
+          <button
+            className="px-2 py-1 rounded-sm text-xs bg-blue-600 text-white hover:bg-blue-700 transition"
+            onClick={() => { setDate(liveDate); logUserAction('use_live_date', { source, layer, date: liveDate }); }}
+            title="Use this date for fetching images"
+          >
+            Use date
+          </button>
+        </div>
+      )}
       {/* Info Panel (show coordinates) */}
       <div className="absolute bottom-6 left-6 z-[9999] bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 text-neutral-900 dark:text-neutral-100 p-5 rounded-md shadow-md min-w-[320px] max-w-lg">
         <div className="text-center">
@@ -622,45 +1429,47 @@ const InteractiveMapExplorer = ({ onBack }: { onBack: () => void }) => {
                 title="Click to open full image in new tab"
               />
               {/* Actual image date for all sources */}
-              {source === 'nasa' && imageMeta && (
+              {imageMeta && (
                 <div className="text-xs mt-1 text-blue-700 dark:text-blue-300 font-semibold">
                   Actual image date: {imageMeta}
-                  {imageMeta !== date && (
+                  {imageMeta.slice(0, 10) !== date && (
                     <span className="ml-2 text-neutral-500 dark:text-neutral-400">(requested: {date})</span>
                   )}
                 </div>
               )}
-              {source === 'copernicus' && selectedScene && selectedScene.datetime && (
-                <div className="text-xs mt-1 text-blue-700 dark:text-blue-300 font-semibold">
-                  Actual image date: {selectedScene.datetime}
-                  {selectedScene.datetime.slice(0, 10) !== date && (
-                    <span className="ml-2 text-neutral-500 dark:text-neutral-400">(requested: {date})</span>
-                  )}
+              {renderedProduct && (
+                <div className="text-xs mt-1 text-neutral-600 dark:text-neutral-300">
+                  Product: {productOptions?.find(p => p.value === renderedProduct)?.label || renderedProduct}
                 </div>
               )}
-              {source === 'gibs' && gibsActualDate && (
-                <div className="text-xs mt-1 text-blue-700 dark:text-blue-300 font-semibold">
-                  Actual image date: {gibsActualDate}
-                  {gibsActualDate !== date && (
-                    <span className="ml-2 text-neutral-500 dark:text-neutral-400">(requested: {date})</span>
-                  )}
-                </div>
+              {compositeInfo && (
+                <div className="text-xs mt-1 text-neutral-600 dark:text-neutral-300">Composite: {compositeInfo}</div>
+              )}
+              {activeProvider?.supportsGeoTiff && (
+                <button
+                  className="mt-2 px-3 py-1 rounded-sm text-xs font-semibold bg-blue-700 text-white hover:bg-blue-500 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={handleDownloadGeoTiff}
+                  disabled={downloadingGeoTiff}
+                >
+                  {downloadingGeoTiff ? 'Preparing GeoTIFF...' : 'Download GeoTIFF'}
+                </button>
               )}
+              {errorMsg && <div className="text-xs mt-1 text-red-600 dark:text-red-400 font-semibold">{errorMsg}</div>}
             </div>
           ) : (
             <div>
               <p className="font-medium text-base text-neutral-800 dark:text-neutral-200 mb-2">{availability ? availability : '[Image metadata/info will appear here]'}</p>
               {errorMsg && <div className="text-xs text-red-600 dark:text-red-400 font-semibold mb-2">{errorMsg}</div>}
-              {/* NASA: Show available dates if no image */}
-              {source === 'nasa' && availableDates.length > 0 && (
+              {/* Date-based providers: show available dates if no image */}
+              {!activeProvider?.requiresScene && availableDates.length > 0 && (
                 <div className="mt-2">
-                  <div className="font-semibold text-yellow-700 dark:text-yellow-300 mb-1 text-sm">Available Dates (±7 days):</div>
-                  <div className="flex flex-wrap gap-2 mt-1">
+                  <div className="font-semibold text-yellow-700 dark:text-yellow-300 mb-1 text-sm">Available Dates:</div>
+                  <div className="flex flex-wrap gap-2 mt-1 max-h-40 overflow-y-auto">
                     {availableDates.map(d => (
                       <span
                         key={d}
                         className={`px-2 py-1 rounded-sm text-xs font-medium border ${d === closestDate ? 'bg-green-600 text-white border-green-700' : 'bg-neutral-200 dark:bg-neutral-700 text-neutral-800 dark:text-neutral-100 border-neutral-300 dark:border-neutral-600'} hover:bg-green-500 hover:text-white transition cursor-pointer`}
-                        onClick={() => { setDate(d); setAvailability(''); setAvailableDates([]); setClosestDate(null); setErrorMsg(null); setNextAvailable(null); setPrevAvailable(null); logUserAction('select_nasa_date', { date: d }); }}
+                        onClick={() => { setDate(d); setAvailability(''); setAvailableDates([]); setClosestDate(null); setErrorMsg(null); setNextAvailable(null); setPrevAvailable(null); logUserAction('select_available_date', { source, date: d }); }}
                       >
                         {d.slice(0, 10)}
                       </span>
@@ -668,37 +1477,37 @@ const InteractiveMapExplorer = ({ onBack }: { onBack: () => void }) => {
                   </div>
                   {closestDate && <div className="text-xs mt-1 text-green-600 dark:text-green-400 font-medium">Closest: {closestDate.slice(0, 10)}</div>}
                   <div className="flex gap-2 mt-1">
-                    {prevAvailable && <button className="px-2 py-1 rounded-sm text-xs bg-blue-700 text-white hover:bg-blue-500 transition" onClick={() => { setDate(prevAvailable.slice(0, 10)); setTime(prevAvailable.slice(11, 16)); setAvailability(''); setAvailableDates([]); setClosestDate(null); setErrorMsg(null); setNextAvailable(null); setPrevAvailable(null); logUserAction('navigate_prev_nasa_date', { prevAvailable }); }}>Previous: {prevAvailable.slice(0, 10)} {prevAvailable.slice(11, 16)}</button>}
-                    {nextAvailable && <button className="px-2 py-1 rounded-sm text-xs bg-blue-700 text-white hover:bg-blue-500 transition" onClick={() => { setDate(nextAvailable.slice(0, 10)); setTime(nextAvailable.slice(11, 16)); setAvailability(''); setAvailableDates([]); setClosestDate(null); setErrorMsg(null); setNextAvailable(null); setPrevAvailable(null); logUserAction('navigate_next_nasa_date', { nextAvailable }); }}>Next: {nextAvailable.slice(0, 10)} {nextAvailable.slice(11, 16)}</button>}
+                    {prevAvailable && <button className="px-2 py-1 rounded-sm text-xs bg-blue-700 text-white hover:bg-blue-500 transition" onClick={() => { setDate(prevAvailable.slice(0, 10)); setTime(prevAvailable.slice(11, 16)); setAvailability(''); setAvailableDates([]); setClosestDate(null); setErrorMsg(null); setNextAvailable(null); setPrevAvailable(null); logUserAction('navigate_prev_date', { source, prevAvailable }); }}>Previous: {prevAvailable.slice(0, 10)} {prevAvailable.slice(11, 16)}</button>}
+                    {nextAvailable && <button className="px-2 py-1 rounded-sm text-xs bg-blue-700 text-white hover:bg-blue-500 transition" onClick={() => { setDate(nextAvailable.slice(0, 10)); setTime(nextAvailable.slice(11, 16)); setAvailability(''); setAvailableDates([]); setClosestDate(null); setErrorMsg(null); setNextAvailable(null); setPrevAvailable(null); logUserAction('navigate_next_date', { source, nextAvailable }); }}>Next: {nextAvailable.slice(0, 10)} {nextAvailable.slice(11, 16)}</button>}
                   </div>
                 </div>
               )}
-              {/* Copernicus: Show available scenes if no image */}
-              {source === 'copernicus' && availableScenes.length > 0 && (
+              {/* Scene-based providers: show available scenes if no image */}
+              {activeProvider?.requiresScene && availableScenes.length > 0 && (
                 <div className="mt-2">
-                  <div className="font-semibold text-yellow-700 dark:text-yellow-300 mb-1 text-sm">Available Scenes (±7 days):</div>
+                  <div className="font-semibold text-yellow-700 dark:text-yellow-300 mb-1 text-sm">{sceneListTitle}</div>
                   <div className="flex flex-col gap-2 mt-1 max-h-40 overflow-y-auto">
                     {availableScenes.map((scene: any) => (
                       <span
                         key={scene.id}
-                        className={`flex items-center gap-2 px-3 py-2 rounded-sm text-xs font-medium border ${selectedScene && selectedScene.id === scene.id ? 'bg-green-600 text-white border-green-700' : 'bg-neutral-200 dark:bg-neutral-700 text-neutral-800 dark:text-neutral-100 border-neutral-300 dark:border-neutral-600'} hover:bg-green-500 hover:text-white transition cursor-pointer`}
-                        onClick={() => {
-                          setSelectedScene(scene);
-                          setDate(scene.datetime.slice(0, 10));
-                          setTime(scene.datetime.slice(11, 16));
-                          setAvailability('');
-                          setAvailableScenes([]);
-                          setErrorMsg(null);
-                          setNextAvailable(null);
-                          setPrevAvailable(null);
-                          logUserAction('select_scene', { scene });
-                        }}
-                        title={`Cloud: ${scene.cloudCover ?? 'N/A'}%`}
+                        className={`flex items-center gap-2 px-3 py-2 rounded-sm text-xs font-medium border ${selectedScene && selectedScene.id === scene.id ? 'bg-green-600 text-white border-green-700' : hoveredSceneId === scene.id ? 'bg-orange-200 dark:bg-orange-900 text-neutral-800 dark:text-neutral-100 border-orange-400' : 'bg-neutral-200 dark:bg-neutral-700 text-neutral-800 dark:text-neutral-100 border-neutral-300 dark:border-neutral-600'} hover:bg-green-500 hover:text-white transition cursor-pointer`}
+                        onClick={() => selectScene(scene, 'list')}
+                        onMouseEnter={() => setHoveredSceneId(scene.id)}
+                        onMouseLeave={() => setHoveredSceneId(null)}
+                        title={`Cloud: ${scene.cloudCover ?? 'N/A'}% of tile${scene.localCloudCover !== undefined ? `, ${scene.localCloudCover.toFixed(0)}% of area` : ''}`}
                       >
+                        {activeProvider.supportsQuicklooks && scene.bbox && (
+                          <img src={quicklookUrl(scene)} alt="" loading="lazy" className="w-10 h-10 object-cover rounded-sm bg-neutral-300 dark:bg-neutral-600" />
+                        )}
                         <span className="font-mono">{scene.datetime ? `${scene.datetime.slice(0, 10)} ${scene.datetime.slice(11, 16)}` : 'Unknown'}</span>
-                        {scene.cloudCover !== undefined && (
+                        {scene.localCloudCover !== undefined ? (
+                          <span className="ml-2 text-xs text-blue-500 dark:text-blue-200">☁️ {scene.localCloudCover.toFixed(0)}% here</span>
+                        ) : scene.cloudCover !== undefined && (
                           <span className="ml-2 text-xs text-blue-500 dark:text-blue-200">☁️ {scene.cloudCover}%</span>
                         )}
+                        {scene.orbitDirection && (
+                          <span className="ml-2 text-xs text-purple-600 dark:text-purple-200">{scene.orbitDirection === 'ASCENDING' ? '↗ ASC' : '↘ DESC'}{scene.polarization ? ` · ${scene.polarization}` : ''}</span>
+                        )}
                         <span className="ml-2 text-xs text-neutral-500 dark:text-neutral-300">{scene.platform?.toUpperCase?.() || ''}</span>
                       </span>
                     ))}
@@ -709,60 +1518,18 @@ const InteractiveMapExplorer = ({ onBack }: { onBack: () => void }) => {
                   </div>
                 </div>
               )}
-              {/* GIBS: Show preview if present */}
-              {source === 'gibs' && gibsPreviewUrl && (
-                <div className="mt-2 relative">
-                  <button
-                    className="absolute top-0 right-0 mt-1 mr-1 bg-neutral-200 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-200 rounded-full w-6 h-6 flex items-center justify-center hover:bg-red-600 hover:text-white focus:outline-none focus:ring-2 focus:ring-red-300 z-10"
-                    onClick={() => { setGibsPreviewUrl(null); setGibsPreviewError(null); setGibsActualDate(null); logUserAction('close_gibs_preview', {}); }}
-                    title="Close GIBS preview"
-                  >
-                    ×
-                  </button>
-                  <div className="font-semibold text-yellow-700 dark:text-yellow-300 mb-1 text-sm">GIBS Tile Preview (center, z=8):</div>
-                  <img
-                    src={gibsPreviewUrl}
-                    alt="GIBS Tile Preview"
-                    className="mx-auto my-2 max-h-48 rounded-sm shadow border border-neutral-200 dark:border-neutral-700 cursor-pointer"
-                    onClick={async () => {
-                      // Fetch the high-res stitched image and open in new tab
-                      const z = 8;
-                      const lat = center[0];
-                      const lon = center[1];
-                      const n = Math.pow(2, z);
-                      const x = Math.floor((lon + 180) / 360 * n);
-                      const y = Math.floor((1 - Math.log(Math.tan(lat * Math.PI / 180) + 1 / Math.cos(lat * Math.PI / 180)) / Math.PI) / 2 * n);
-                      const tileUrl = `/api/fetch-gibs-image?layer=${gibsLayer}&date=${date}&z=${z}&x=${x}&y=${y}&resolution=${resolution}`;
-                      try {
-                        const res = await fetch(tileUrl);
-                        if (res.ok) {
-                          const blob = await res.blob();
-                          const url = URL.createObjectURL(blob);
-                          window.open(url, '_blank');
-                          logUserAction('open_gibs_image_preview_highres', { tileUrl, resolution });
-                        }
-                      } catch {}
-                    }}
-                    title="Click to open high-res image in new tab"
-                  />
-                  <div className="text-xs mt-1 text-neutral-700 dark:text-neutral-300 break-all">Tile URL: <span className="font-mono">{`/api/fetch-gibs-image?layer=${gibsLayer}&date=${date}&z=8&x=${Math.floor((center[1] + 180) / 360 * Math.pow(2,8))}&y=${Math.floor((1 - Math.log(Math.tan(center[0] * Math.PI / 180) + 1 / Math.cos(center[0] * Math.PI / 180)) / Math.PI) / 2 * Math.pow(2,8))}`}</span></div>
-                  {gibsActualDate && (
-                    <div className="text-xs mt-1 text-blue-700 dark:text-blue-300 font-semibold">
-                      Actual image date: {gibsActualDate}
-                      {gibsActualDate !== date && (
-                        <span className="ml-2 text-neutral-500 dark:text-neutral-400">(requested: {date})</span>
-                      )}
-                    </div>
-                  )}
-                </div>
-              )}
-              {source === 'gibs' && gibsPreviewError && (
-                <div className="mt-2 text-xs text-red-600 dark:text-red-400 font-semibold">{gibsPreviewError}</div>
-              )}
             </div>
           )}
         </div>
       </div>
+      {compareImages && (
+        <CompareViewer
+          left={compareImages.left}
+          right={compareImages.right}
+          onClose={closeCompare}
+          onModeChange={mode => logUserAction('change_compare_mode', { mode })}
+        />
+      )}
       {/* Theme Toggle */}
       <button
         onClick={() => { toggleTheme(); logUserAction('toggle_theme', { theme: theme === 'dark' ? 'light' : 'dark' }); }}
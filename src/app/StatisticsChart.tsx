@@ -0,0 +1,64 @@
+'use client';
+import React from 'react';
+import type { IntervalStatistics } from '@/lib/copernicus/statistics';
+
+interface StatisticsChartProps {
+  intervals: IntervalStatistics[];
+  // Percentiles in the rows; the outermost pair shades the spread, else min-max
+  percentiles: number[];
+}
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const PAD = { left: 36, right: 8, top: 8, bottom: 20 };
+
+// Mean per interval as a line over a shaded spread; intervals without valid pixels are gaps
+const StatisticsChart = ({ intervals, percentiles }: StatisticsChartProps) => {
+  const points = intervals.filter(row => row.mean !== null);
+  if (points.length === 0) {
+    return <div className="text-xs text-neutral-500">No valid pixels in any interval.</div>;
+  }
+  const sorted = percentiles.slice().sort((a, b) => a - b);
+  const spread = (row: IntervalStatistics): [number, number] => {
+    const low = sorted.length >= 2 ? row.percentiles[String(sorted[0])] : null;
+    const high = sorted.length >= 2 ? row.percentiles[String(sorted[sorted.length - 1])] : null;
+    return low !== null && high !== null ? [low, high] : [row.min as number, row.max as number];
+  };
+  const spreadLabel = sorted.length >= 2 ? `p${sorted[0]}–p${sorted[sorted.length - 1]}` : 'min–max';
+
+  const times = points.map(row => Date.parse(row.from));
+  const values = points.flatMap(row => [row.mean as number, ...spread(row)]);
+  const t0 = Math.min(...times);
+  const t1 = Math.max(...times);
+  let v0 = Math.min(...values);
+  let v1 = Math.max(...values);
+  if (v0 === v1) { v0 -= 0.5; v1 += 0.5; }
+  const x = (t: number) => PAD.left + (t1 === t0 ? 0.5 : (t - t0) / (t1 - t0)) * (WIDTH - PAD.left - PAD.right);
+  const y = (v: number) => PAD.top + (1 - (v - v0) / (v1 - v0)) * (HEIGHT - PAD.top - PAD.bottom);
+
+  const band = [
+    ...points.map((row, i) => `${x(times[i])},${y(spread(row)[1])}`),
+    ...points.map((row, i) => `${x(times[i])},${y(spread(row)[0])}`).reverse(),
+  ].join(' ');
+  const line = points.map((row, i) => `${x(times[i])},${y(row.mean as number)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full text-neutral-500" role="img" aria-label={`Mean with ${spreadLabel} spread`}>
+      <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={HEIGHT - PAD.bottom} stroke="currentColor" strokeWidth="0.5" />
+      <line x1={PAD.left} y1={HEIGHT - PAD.bottom} x2={WIDTH - PAD.right} y2={HEIGHT - PAD.bottom} stroke="currentColor" strokeWidth="0.5" />
+      <text x={PAD.left - 4} y={PAD.top + 8} textAnchor="end" fontSize="9" fill="currentColor">{v1.toFixed(2)}</text>
+      <text x={PAD.left - 4} y={HEIGHT - PAD.bottom} textAnchor="end" fontSize="9" fill="currentColor">{v0.toFixed(2)}</text>
+      <text x={PAD.left} y={HEIGHT - 6} fontSize="9" fill="currentColor">{points[0].from.slice(0, 10)}</text>
+      <text x={WIDTH - PAD.right} y={HEIGHT - 6} textAnchor="end" fontSize="9" fill="currentColor">{points[points.length - 1].from.slice(0, 10)}</text>
+      <polygon points={band} fill="#22c55e" fillOpacity="0.2" stroke="none" />
+      <polyline points={line} fill="none" stroke="#16a34a" strokeWidth="1.5" />
+      {points.map((row, i) => (
+        <circle key={row.from} cx={x(times[i])} cy={y(row.mean as number)} r="2" fill="#16a34a">
+          <title>{`${row.from.slice(0, 10)}: mean ${(row.mean as number).toFixed(3)}, ${spreadLabel} ${spread(row).map(v => v.toFixed(3)).join('–')}, ${row.validPixels} valid px`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default StatisticsChart;
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { logWarn, withRequestLog } from '@/lib/logger';
+import { cacheStats, purgeCache } from '@/lib/cache';
+
+// Callers must send CACHE_ADMIN_TOKEN as a bearer token. Without a token the endpoint
+// only answers in development; elsewhere it stays hidden behind a 404.
+function denied(request: Request) {
+  const token = process.env.CACHE_ADMIN_TOKEN;
+  if (!token) {
+    return process.env.NODE_ENV === 'development' ? null : NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  if (request.headers.get('authorization') === `Bearer ${token}`) return null;
+  return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+}
+
+// Cache usage per namespace; ?entries=1 also lists the entries, most recently used first
+export const GET = withRequestLog(async (request: Request) => {
+  const refusal = denied(request);
+  if (refusal) return refusal;
+  const { searchParams } = new URL(request.url);
+  return NextResponse.json(await cacheStats(searchParams.get('entries') === '1'));
+});
+
+// Purge everything, one provider or namespace (?namespace=gibs or gibs:image), or ?expired=1 only
+export const DELETE = withRequestLog(async (request: Request) => {
+  const refusal = denied(request);
+  if (refusal) {
+    await logWarn('CACHE PURGE DENIED');
+    return refusal;
+  }
+  const { searchParams } = new URL(request.url);
+  const removed = await purgeCache({
+    namespace: searchParams.get('namespace') || undefined,
+    expiredOnly: searchParams.get('expired') === '1',
+  });
+  return NextResponse.json({ removed, ...(await cacheStats()) });
+});
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { logWarn, withRequestLog } from '@/lib/logger';
+import { getProvider, ImageryError } from '@/lib/imagery';
+import { errorResponse, parseImageryQuery } from '@/lib/imagery/http';
+import { detectChanges } from '@/lib/change-detection';
+
+function parseThreshold(searchParams: URLSearchParams, name: string, fallback: number) {
+  const value = searchParams.get(name);
+  if (value === null || value === '') return fallback;
+  const parsed = parseFloat(value);
+  if (isNaN(parsed) || parsed <= 0 || parsed >= 1) {
+    throw new ImageryError(`Invalid parameter: ${name} must be between 0 and 1`, 400);
+  }
+  return parsed;
+}
+
+// Difference products between two acquisitions of the same area. Takes the usual
+// location parameters plus `before` and `after` (scene times or dates; a date picks
+// the closest scene for Copernicus) and optional ndviThreshold/brightnessThreshold.
+export const GET = withRequestLog(async (request: Request) => {
+  const { searchParams } = new URL(request.url);
+  const providerId = searchParams.get('provider') || 'copernicus';
+  const provider = getProvider(providerId);
+  if (!provider) {
+    await logWarn(`CHANGE DETECTION ERROR: Unknown provider: ${providerId}`);
+    return NextResponse.json({ error: `Unknown provider: ${providerId}` }, { status: 400 });
+  }
+
+  try {
+    const before = searchParams.get('before');
+    const after = searchParams.get('after');
+    if (!before || !after) {
+      throw new ImageryError('Missing required parameters: before, after', 400);
+    }
+    const result = await detectChanges(provider, parseImageryQuery(searchParams), {
+      before,
+      after,
+      ndviThreshold: parseThreshold(searchParams, 'ndviThreshold', 0.2),
+      brightnessThreshold: parseThreshold(searchParams, 'brightnessThreshold', 0.15),
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    return errorResponse(error, 'Change Detection');
+  }
+});
@@ -1,15 +1,80 @@
 import { NextResponse } from 'next/server';
-import fs from 'fs/promises';
-import path from 'path';
+import { appendLog, logWarn, withRequestLog } from '@/lib/logger';
+import {
+  MAX_CLIENT_LOG_BYTES,
+  MAX_CLIENT_LOG_EVENTS,
+  clientIp,
+  takeRateLimit,
+  validateClientLogEvent,
+} from '@/lib/client-log';
 
-const logFilePath = path.join(process.cwd(), 'logs', 'api-requests.log');
+async function tooManyRequests(ip: string, limit: { retryAfter: number; warn: boolean }) {
+  if (limit.warn) await logWarn('client log rate limited', { ip, retryAfter: limit.retryAfter });
+  return NextResponse.json(
+    { error: 'Too many log events, slow down', retryAfter: limit.retryAfter },
+    { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } },
+  );
+}
 
-export async function POST(request: Request) {
+// Read the body, giving up once it passes the limit instead of buffering all of it
+async function readLimited(request: Request) {
+  if (parseInt(request.headers.get('content-length') || '0', 10) > MAX_CLIENT_LOG_BYTES) return null;
+  if (!request.body) return '';
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.byteLength;
+    if (size > MAX_CLIENT_LOG_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(chunk.value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// User actions from the explorer; `actionId` ties each one to the API requests it triggered.
+// Takes one event or a batch `{ events: [...] }` (also as a sendBeacon body). Invalid events
+// are dropped and counted in `rejected`; a batch with none valid is a 400.
+export const POST = withRequestLog(async (request: Request) => {
+  const ip = clientIp(request);
+  const precheck = takeRateLimit(ip, 0);
+  if (precheck.retryAfter) return tooManyRequests(ip, precheck);
+
+  const text = await readLimited(request);
+  if (text === null) {
+    takeRateLimit(ip, 1);
+    await logWarn('client log too large', { ip });
+    return NextResponse.json({ error: `Payload too large; the limit is ${MAX_CLIENT_LOG_BYTES} bytes` }, { status: 413 });
+  }
+  let body: any;
   try {
-    const log = await request.json();
-    await fs.appendFile(logFilePath, `[${new Date().toISOString()}] CLIENT_LOG: ${JSON.stringify(log)}\n`);
-    return NextResponse.json({ ok: true });
-  } catch (e) {
-    return NextResponse.json({ error: 'Failed to log' }, { status: 500 });
+    body = JSON.parse(text);
+  } catch {
+    takeRateLimit(ip, 1);
+    return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 });
+  }
+
+  const raw: unknown[] = Array.isArray(body?.events) ? body.events : [body];
+  if (raw.length === 0 || raw.length > MAX_CLIENT_LOG_EVENTS) {
+    takeRateLimit(ip, 1);
+    return NextResponse.json({ error: `A batch must have between 1 and ${MAX_CLIENT_LOG_EVENTS} events` }, { status: 400 });
+  }
+  const limit = takeRateLimit(ip, raw.length);
+  if (limit.retryAfter) return tooManyRequests(ip, limit);
+
+  const results = raw.map(validateClientLogEvent);
+  const events = results.filter(result => typeof result !== 'string');
+  const errors = results.filter((result): result is string => typeof result === 'string');
+  if (events.length === 0) {
+    return NextResponse.json({ error: `Invalid log event: ${errors[0]}` }, { status: 400 });
+  }
+  for (const { action, actionId, details, timestamp } of events) {
+    await appendLog('client action', { source: 'client', action, actionId, clientTime: timestamp, details });
+  }
+  if (errors.length > 0) {
+    await logWarn('client log events rejected', { ip, rejected: errors.length, reason: errors[0] });
   }
-} 
\ No newline at end of file
+  return NextResponse.json({ ok: true, accepted: events.length, rejected: errors.length });
+});
@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import { appendLog, logWarn, withRequestLog } from '@/lib/logger';
+import { getProvider, listProviders } from '@/lib/imagery';
+import { renderImage } from '@/lib/imagery/output';
+import { errorResponse, imageResponse, parseImageryQuery } from '@/lib/imagery/http';
+import { ImageryError } from '@/lib/imagery/errors';
+import type { BBox } from '@/lib/geo';
+
+// Single entry point for every imagery source:
+//   ?action=providers                      -> capabilities of all providers
+//   ?provider=<id>&action=layers[&q=&limit=] -> layers offered by a provider, optionally filtered
+//   ?provider=<id>&action=availability&... -> available dates/scenes
+//   ?provider=<id>&action=search&from=&to=[&maxCloudCover=&platform=&tileId=&sort=&maxResults=] -> all matching scenes
+//   ?provider=<id>&action=quicklook&acquisitionTime=&bbox=[&collection=] -> small preview of one scene
+//   ?provider=<id>&...                     -> the image itself
+export const GET = withRequestLog(async (request: Request) => {
+  const { searchParams } = new URL(request.url);
+  const action = searchParams.get('action') || 'image';
+  const providerId = searchParams.get('provider');
+
+  if (action === 'providers') {
+    return NextResponse.json({ providers: listProviders().map(p => p.describe()) });
+  }
+
+  const provider = getProvider(providerId);
+  if (!provider) {
+    await logWarn(`IMAGERY API ERROR: Unknown provider: ${providerId}`);
+    return NextResponse.json({ error: `Unknown provider: ${providerId}` }, { status: 400 });
+  }
+  await appendLog(`IMAGERY API ACTION: ${action}, provider=${provider.id}`);
+
+  try {
+    if (action === 'layers') {
+      const layers = await provider.listLayers(searchParams.get('q'));
+      const limit = parseInt(searchParams.get('limit') || '0', 10);
+      return NextResponse.json({ layers: limit > 0 ? layers.slice(0, limit) : layers, total: layers.length });
+    }
+    if (action === 'quicklook') {
+      const bbox = (searchParams.get('bbox') || '').split(',').map(Number);
+      const datetime = searchParams.get('acquisitionTime');
+      if (!provider.fetchQuicklook) {
+        return NextResponse.json({ error: `Quicklooks not supported by provider: ${provider.id}` }, { status: 400 });
+      }
+      if (!datetime || bbox.length !== 4 || bbox.some(isNaN)) {
+        throw new ImageryError('Missing or invalid parameters: quicklooks need acquisitionTime and bbox=minLon,minLat,maxLon,maxLat', 400);
+      }
+      const response = imageResponse(await provider.fetchQuicklook({ datetime, bbox: bbox as BBox, collection: searchParams.get('collection') || undefined }));
+      response.headers.set('Cache-Control', 'public, max-age=86400');
+      return response;
+    }
+    const query = parseImageryQuery(searchParams);
+    if (action === 'availability') {
+      return NextResponse.json(await provider.searchAvailability(query));
+    }
+    if (action === 'search') {
+      if (!provider.searchScenes) {
+        return NextResponse.json({ error: `Scene search not supported by provider: ${provider.id}` }, { status: 400 });
+      }
+      return NextResponse.json(await provider.searchScenes(query));
+    }
+    if (action === 'image') {
+      return imageResponse(await renderImage(provider, query));
+    }
+    return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+  } catch (error) {
+    return errorResponse(error, `Imagery ${provider.id}`);
+  }
+});
+
+// Image fetch with a custom evalscript: same query string as GET, body { evalscript }
+export const POST = withRequestLog(async (request: Request) => {
+  const { searchParams } = new URL(request.url);
+  const providerId = searchParams.get('provider');
+  const provider = getProvider(providerId);
+  if (!provider || !provider.describe().supportsCustomScripts) {
+    await logWarn(`IMAGERY API ERROR: Custom scripts not supported by provider: ${providerId}`);
+    return NextResponse.json({ error: `Custom scripts not supported by provider: ${providerId}` }, { status: 400 });
+  }
+  try {
+    const body = await request.json().catch(() => ({}));
+    const query = parseImageryQuery(searchParams);
+    query.evalscript = body.evalscript ?? '';
+    return imageResponse(await renderImage(provider, query));
+  } catch (error) {
+    return errorResponse(error, `Imagery ${provider.id}`);
+  }
+});
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { withRequestLog } from '@/lib/logger';
+import { readJob, readJobFile, resumeJobs } from '@/lib/jobs';
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  tif: 'image/tiff',
+  zip: 'application/zip',
+};
+
+// Job progress with per-item status and errors, or with ?file=<name> one of its
+// outputs (an item file, or results.zip once the job has finished)
+export const GET = withRequestLog(async (request: Request, { params }: { params: Promise<{ id: string }> }) => {
+  const { id } = await params;
+  await resumeJobs();
+  const file = new URL(request.url).searchParams.get('file');
+  if (file) {
+    const data = await readJobFile(id, file);
+    if (!data) {
+      return NextResponse.json({ error: 'Job file not found' }, { status: 404 });
+    }
+    const extension = file.split('.').pop() || '';
+    return new NextResponse(data, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[extension] || 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${extension === 'zip' ? `job-${id}.zip` : file}"`,
+      },
+    });
+  }
+
+  const job = await readJob(id);
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+  return NextResponse.json({
+    ...job,
+    items: job.items.map(item => ({ ...item, ...(item.file ? { url: `/api/jobs/${id}?file=${item.file}` } : {}) })),
+    ...(job.zip ? { download: `/api/jobs/${id}?file=${job.zip}` } : {}),
+  });
+});
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { withRequestLog } from '@/lib/logger';
+import { errorResponse } from '@/lib/imagery/http';
+import { ImageryError } from '@/lib/imagery';
+import { createJob, listJobs, resumeJobs } from '@/lib/jobs';
+
+// Queue a batch export. The JSON body is { name?, defaults?, items: [...] }, where
+// each item (merged over `defaults`) holds /api/imagery parameters plus `provider`.
+// Responds 202 with the job; poll /api/jobs/<id> for progress.
+export const POST = withRequestLog(async (request: Request) => {
+  try {
+    await resumeJobs();
+    const body = await request.json().catch(() => {
+      throw new ImageryError('Invalid JSON body', 400);
+    });
+    const job = await createJob(body);
+    return NextResponse.json({ ...job, statusUrl: `/api/jobs/${job.id}` }, { status: 202 });
+  } catch (error) {
+    return errorResponse(error, 'Jobs');
+  }
+});
+
+export const GET = withRequestLog(async () => {
+  try {
+    await resumeJobs();
+    return NextResponse.json({ jobs: await listJobs() });
+  } catch (error) {
+    return errorResponse(error, 'Jobs');
+  }
+});
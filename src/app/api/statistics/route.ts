@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { withRequestLog } from '@/lib/logger';
+import { ImageryError } from '@/lib/imagery';
+import { errorResponse, parseImageryQuery } from '@/lib/imagery/http';
+import {
+  CUSTOM_INDEX,
+  DEFAULT_PERCENTILES,
+  STATISTICS_INTERVALS,
+  StatisticsInterval,
+  fetchIndexStatistics,
+  indexStatisticsToCsv,
+} from '@/lib/copernicus/statistics';
+
+function parseInterval(value: string | null): StatisticsInterval {
+  if (!value) return 'weekly';
+  if (Object.hasOwn(STATISTICS_INTERVALS, value)) return value as StatisticsInterval;
+  throw new ImageryError(`Invalid parameter: interval must be one of ${Object.keys(STATISTICS_INTERVALS).join(', ')}`, 400);
+}
+
+// `percentiles=5,50,95`
+function parsePercentiles(value: string | null) {
+  if (!value) return DEFAULT_PERCENTILES;
+  const parsed = value.split(',').filter(Boolean).map(Number);
+  if (parsed.length === 0 || parsed.some(p => isNaN(p) || p < 0 || p > 100)) {
+    throw new ImageryError('Invalid parameter: percentiles must be a list of numbers between 0 and 100', 400);
+  }
+  return parsed;
+}
+
+async function statisticsResponse(searchParams: URLSearchParams, evalscript?: string) {
+  // `format` selects the export here, not the image encoding
+  const params = new URLSearchParams(searchParams);
+  const format = params.get('format') || 'json';
+  if (format !== 'json' && format !== 'csv') {
+    throw new ImageryError(`Invalid parameter: format must be 'json' or 'csv'`, 400);
+  }
+  params.delete('format');
+
+  const index = (evalscript !== undefined ? CUSTOM_INDEX : params.get('index') || 'ndvi').toLowerCase();
+  const result = await fetchIndexStatistics(parseImageryQuery(params), {
+    index,
+    evalscript,
+    interval: parseInterval(params.get('interval')),
+    percentiles: parsePercentiles(params.get('percentiles')),
+    maskClouds: !['0', 'false'].includes(params.get('maskClouds') || ''),
+  });
+
+  if (format === 'csv') {
+    return new NextResponse(indexStatisticsToCsv(result), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${result.collection}_${index}_${result.interval}_${result.from.slice(0, 10)}_${result.to.slice(0, 10)}.csv"`,
+      },
+    });
+  }
+  return NextResponse.json(result);
+}
+
+// Per-interval index statistics over the location or AOI between `from` and `to`.
+// Takes the usual location parameters plus `index` (ndvi, ndwi, nbr, as listed per
+// collection), `interval` (daily, weekly, monthly), `percentiles`, `maskClouds=0`
+// to keep cloudy pixels and `format=csv` for a spreadsheet export.
+export const GET = withRequestLog(async (request: Request) => {
+  try {
+    return await statisticsResponse(new URL(request.url).searchParams);
+  } catch (error) {
+    return errorResponse(error, 'Statistics');
+  }
+});
+
+// POST with a JSON body { evalscript } aggregates a custom script's outputs instead;
+// it must declare a dataMask output
+export const POST = withRequestLog(async (request: Request) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.evalscript !== 'string') {
+      throw new ImageryError('Missing required body field: evalscript', 400);
+    }
+    return await statisticsResponse(new URL(request.url).searchParams, body.evalscript);
+  } catch (error) {
+    return errorResponse(error, 'Statistics');
+  }
+});
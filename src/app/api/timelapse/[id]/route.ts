@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { withRequestLog } from '@/lib/logger';
+import { readTimelapseFile } from '@/lib/timelapse';
+
+const CONTENT_TYPES: Record<string, string> = {
+  gif: 'image/gif',
+  webp: 'image/webp',
+  zip: 'application/zip',
+};
+
+// Download a finished timelapse: ?file=animation.gif|animation.webp|frames.zip
+export const GET = withRequestLog(async (request: Request, { params }: { params: Promise<{ id: string }> }) => {
+  const { id } = await params;
+  const file = new URL(request.url).searchParams.get('file') || 'animation.gif';
+  const data = await readTimelapseFile(id, file);
+  if (!data) {
+    return NextResponse.json({ error: 'Timelapse file not found' }, { status: 404 });
+  }
+  const extension = file.split('.').pop() || '';
+  return new NextResponse(data, {
+    headers: {
+      'Content-Type': CONTENT_TYPES[extension] || 'application/octet-stream',
+      ...(extension === 'zip' ? { 'Content-Disposition': `attachment; filename="timelapse-${id}.zip"` } : {}),
+    },
+  });
+});
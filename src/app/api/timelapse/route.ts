@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { logError, logWarn, withRequestLog } from '@/lib/logger';
+import { getProvider, ImageryError } from '@/lib/imagery';
+import { errorResponse, parseImageryQuery } from '@/lib/imagery/http';
+import { createTimelapse, MAX_TIMELAPSE_RESOLUTION, timelapseDates, TimelapseEvent } from '@/lib/timelapse';
+
+// Builds a timelapse and streams progress as newline-delimited JSON. Same
+// location/provider parameters as /api/imagery plus startDate, endDate,
+// cadenceDays, animation (gif|webp) and frameDelayMs.
+export const GET = withRequestLog(async (request: Request) => {
+  const { searchParams } = new URL(request.url);
+  const providerId = searchParams.get('provider');
+  const provider = getProvider(providerId);
+  if (!provider) {
+    await logWarn(`TIMELAPSE ERROR: Unknown provider: ${providerId}`);
+    return NextResponse.json({ error: `Unknown provider: ${providerId}` }, { status: 400 });
+  }
+
+  let query, options;
+  try {
+    query = parseImageryQuery(searchParams);
+    const cadenceDays = parseInt(searchParams.get('cadenceDays') || '7', 10);
+    const frameDelayMs = parseInt(searchParams.get('frameDelayMs') || '700', 10);
+    const animation = searchParams.get('animation') === 'webp' ? 'webp' as const : 'gif' as const;
+    if (isNaN(cadenceDays) || cadenceDays < 1 || isNaN(frameDelayMs) || frameDelayMs < 20) {
+      throw new ImageryError('Invalid parameters: cadenceDays must be >= 1 and frameDelayMs >= 20', 400);
+    }
+    if (query.resolution > MAX_TIMELAPSE_RESOLUTION) {
+      throw new ImageryError(`Invalid parameter: timelapse resolution must be at most ${MAX_TIMELAPSE_RESOLUTION}`, 400);
+    }
+    options = {
+      startDate: searchParams.get('startDate') || '',
+      endDate: searchParams.get('endDate') || '',
+      cadenceDays,
+      animation,
+      frameDelayMs,
+    };
+    // Reject bad ranges before the stream starts so they get a proper status code
+    timelapseDates(options.startDate, options.endDate, options.cadenceDays);
+  } catch (error) {
+    return errorResponse(error, 'Timelapse');
+  }
+
+  const encoder = new TextEncoder();
+  // Aborted when the client goes away; the render stops and the stream is left alone
+  const abort = new AbortController();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: TimelapseEvent) => {
+        if (abort.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch {
+          abort.abort();
+        }
+      };
+      try {
+        await createTimelapse(provider, query, options, send, abort.signal);
+      } catch (error) {
+        await logError(`TIMELAPSE ERROR: ${error instanceof Error ? error.message : error}`);
+        send({ type: 'error', error: error instanceof ImageryError ? error.message : 'Failed to create timelapse.' });
+      } finally {
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache',
+    },
+  });
+});
@@ -0,0 +1,7 @@
+// Runs once when the server starts: pick up batch jobs a previous process left unfinished
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { resumeJobs } = await import('@/lib/jobs');
+    await resumeJobs();
+  }
+}
@@ -0,0 +1,117 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+let dir: string;
+
+// A fresh cache module over an empty directory; settings are read when the module loads
+async function load(maxBytes = 1024 * 1024) {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'imagery-cache-'));
+  vi.stubEnv('IMAGERY_CACHE_DIR', dir);
+  vi.stubEnv('IMAGERY_CACHE_MAX_MB', String(maxBytes / 1024 / 1024));
+  vi.resetModules();
+  delete (globalThis as any).__imageryCache;
+  return import('./cache');
+}
+
+const value = (text: string) => async () => ({ data: Buffer.from(text) });
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('withCache', () => {
+  it('stores a miss and serves it back', async () => {
+    const { withCache } = await load();
+    const load1 = vi.fn(value('tile'));
+    expect(await withCache('gibs:tile', { z: 1 }, load1)).toMatchObject({ cache: 'MISS' });
+    const hit = await withCache('gibs:tile', { z: 1 }, load1);
+    expect(hit.cache).toBe('HIT');
+    expect(hit.data.toString()).toBe('tile');
+    expect(load1).toHaveBeenCalledTimes(1);
+  });
+
+  it('hashes keys the same whatever their property order', async () => {
+    const { cacheKey } = await load();
+    expect(cacheKey('nasa:image', { lat: 1, lon: 2 })).toBe(cacheKey('nasa:image', { lon: 2, lat: 1 }));
+    expect(cacheKey('nasa:image', { lat: 1 })).not.toBe(cacheKey('gibs:image', { lat: 1 }));
+  });
+
+  it('shares one load between concurrent misses and never caches failures', async () => {
+    const { withCache } = await load();
+    const slow = vi.fn(() => new Promise<{ data: Buffer }>(resolve => setTimeout(() => resolve({ data: Buffer.from('x') }), 20)));
+    await Promise.all([withCache('nasa:image', 'k', slow), withCache('nasa:image', 'k', slow)]);
+    expect(slow).toHaveBeenCalledTimes(1);
+
+    const failing = vi.fn(async () => { throw new Error('upstream down'); });
+    await expect(withCache('nasa:image', 'bad', failing)).rejects.toThrow('upstream down');
+    await expect(withCache('nasa:image', 'bad', failing)).rejects.toThrow('upstream down');
+    expect(failing).toHaveBeenCalledTimes(2);
+  });
+
+  it('expires entries after their namespace TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { withCache, ttlFor } = await load();
+    await withCache('copernicus:catalog', 'search', value('a'));
+    vi.setSystemTime(Date.now() + ttlFor('copernicus:catalog') * 1000 - 1000);
+    expect((await withCache('copernicus:catalog', 'search', value('b'))).cache).toBe('HIT');
+    vi.setSystemTime(Date.now() + 2000);
+    const refreshed = await withCache('copernicus:catalog', 'search', value('b'));
+    expect(refreshed.cache).toBe('MISS');
+    expect(refreshed.data.toString()).toBe('b');
+  });
+
+  it('keeps recent GIBS and NASA imagery only briefly', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-06-10T12:00:00Z'));
+    const { withCache, ttlFor } = await load();
+    expect(ttlFor('gibs:image', '2024-06-09')).toBe(3600);
+    expect(ttlFor('gibs:tile', '2024-06-01')).toBe(7 * 24 * 3600);
+    expect(ttlFor('copernicus:image', '2024-06-09')).toBe(7 * 24 * 3600);
+
+    await withCache('gibs:image', 'today', value('partial'), '2024-06-10');
+    await withCache('gibs:image', 'old', value('final'), '2024-05-01');
+    vi.setSystemTime(Date.now() + 2 * 3600 * 1000);
+    expect((await withCache('gibs:image', 'today', value('filled in'), '2024-06-10')).data.toString()).toBe('filled in');
+    expect((await withCache('gibs:image', 'old', value('new'), '2024-05-01')).cache).toBe('HIT');
+  });
+
+  it('evicts the least recently used entries past the size cap', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { withCache, cacheStats } = await load(25);
+    const tick = () => vi.setSystemTime(Date.now() + 1000);
+    await withCache('gibs:tile', 'a', value('aaaaaaaaaa'));
+    tick();
+    await withCache('gibs:tile', 'b', value('bbbbbbbbbb'));
+    tick();
+    // Reading `a` makes `b` the oldest
+    await withCache('gibs:tile', 'a', value('unused'));
+    tick();
+    await withCache('gibs:tile', 'c', value('cccccccccc'));
+
+    const stats = await cacheStats();
+    expect(stats.entries).toBe(2);
+    expect(stats.totalBytes).toBe(20);
+    expect(stats.evictions).toBe(1);
+    expect((await withCache('gibs:tile', 'a', value('new'))).cache).toBe('HIT');
+    expect((await withCache('gibs:tile', 'b', value('new'))).cache).toBe('MISS');
+  });
+
+  it('rebuilds its index from disk and purges by namespace', async () => {
+    const first = await load();
+    await first.withCache('gibs:tile', 't', value('tile'));
+    await first.withCache('gibs:image', 'i', value('image'));
+    await first.withCache('nasa:image', 'n', value('nasa'));
+
+    // A new process over the same directory
+    vi.resetModules();
+    delete (globalThis as any).__imageryCache;
+    const second = await import('./cache');
+    expect((await second.cacheStats()).entries).toBe(3);
+    expect(await second.purgeCache({ namespace: 'gibs' })).toBe(2);
+    expect((await second.withCache('nasa:image', 'n', value('other'))).cache).toBe('HIT');
+  });
+});
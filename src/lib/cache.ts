@@ -0,0 +1,251 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { appendLog, logError } from '@/lib/logger';
+
+const CACHE_DIR = process.env.IMAGERY_CACHE_DIR || path.join(process.cwd(), 'cache', 'imagery');
+const MAX_CACHE_BYTES = parseFloat(process.env.IMAGERY_CACHE_MAX_MB || '512') * 1024 * 1024;
+const CACHE_DISABLED = process.env.IMAGERY_CACHE_DISABLED === '1';
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+// How long each kind of entry stays fresh, per provider (seconds)
+const TTL_SECONDS: Record<string, number> = {
+  'nasa:image': 7 * DAY,
+  'nasa:assets': 6 * HOUR,
+  'copernicus:image': 7 * DAY,
+  'copernicus:catalog': HOUR,
+  'copernicus:quicklook': 30 * DAY,
+  'copernicus:statistics': 30 * DAY,
+  // Recent intervals gain acquisitions, so index statistics refresh daily
+  'copernicus:index-statistics': DAY,
+  'gibs:image': 7 * DAY,
+  'gibs:tile': 7 * DAY,
+  'gibs:capabilities': 6 * HOUR,
+};
+const DEFAULT_TTL_SECONDS = DAY;
+// GIBS and NASA keep adding granules for a few days after a date, so imagery of
+// recent dates is only cached briefly
+const RECENT_DAYS = 3;
+const RECENT_TTL_SECONDS = HOUR;
+const RECENT_NAMESPACES = new Set(['nasa:image', 'gibs:image', 'gibs:tile']);
+
+export type CacheStatus = 'HIT' | 'MISS';
+
+interface CacheEntry {
+  hash: string;
+  namespace: string;
+  size: number;
+  createdAt: number;
+  expiresAt: number;
+  lastAccess: number;
+  meta?: any;
+}
+
+interface CacheState {
+  // In-memory index of what is on disk, rebuilt from the sidecar files on first use
+  index: Promise<Map<string, CacheEntry>> | null;
+  inFlight: Map<string, Promise<{ data: Buffer; meta?: any }>>;
+  counters: { hits: number; misses: number; evictions: number };
+}
+
+// Each route bundle gets its own copy of this module; keep one state per process
+const state: CacheState = (globalThis as any).__imageryCache ||= {
+  index: null,
+  inFlight: new Map(),
+  counters: { hits: 0, misses: 0, evictions: 0 },
+};
+const { inFlight, counters } = state;
+
+const dataPath = (hash: string) => path.join(CACHE_DIR, `${hash}.bin`);
+const metaPath = (hash: string) => path.join(CACHE_DIR, `${hash}.json`);
+
+async function loadIndex() {
+  const entries = new Map<string, CacheEntry>();
+  await fs.mkdir(CACHE_DIR, { recursive: true });
+  for (const file of await fs.readdir(CACHE_DIR)) {
+    if (!file.endsWith('.json')) continue;
+    const hash = file.slice(0, -5);
+    try {
+      const entry = JSON.parse(await fs.readFile(metaPath(hash), 'utf8'));
+      // Last access survives restarts as the data file's mtime
+      const { mtimeMs } = await fs.stat(dataPath(hash));
+      entries.set(hash, { ...entry, hash, lastAccess: mtimeMs });
+    } catch {
+      await removeFiles(hash);
+    }
+  }
+  return entries;
+}
+
+function getIndex() {
+  if (!state.index) state.index = loadIndex();
+  return state.index;
+}
+
+async function removeFiles(hash: string) {
+  await Promise.all([fs.rm(dataPath(hash), { force: true }), fs.rm(metaPath(hash), { force: true })]);
+}
+
+async function removeEntry(entries: Map<string, CacheEntry>, hash: string) {
+  entries.delete(hash);
+  await removeFiles(hash);
+}
+
+// Object keys are sorted so equal queries hash the same however they were built
+const sortKeys = (_: string, value: any) => value && typeof value === 'object' && !Array.isArray(value) && !Buffer.isBuffer(value)
+  ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+  : value;
+
+export function cacheKey(namespace: string, key: unknown) {
+  return crypto.createHash('sha256').update(`${namespace}\n${JSON.stringify(key, sortKeys)}`).digest('hex');
+}
+
+// True for dates (YYYY-MM-DD or ISO) within the last RECENT_DAYS days, or in the future
+export function isRecentDate(date: string | undefined) {
+  const time = date ? Date.parse(date.slice(0, 10)) : NaN;
+  return !isNaN(time) && Date.now() - time < RECENT_DAYS * DAY * 1000;
+}
+
+// `date` is the imagery date of the entry, for namespaces whose recent dates still change
+export function ttlFor(namespace: string, date?: string) {
+  if (RECENT_NAMESPACES.has(namespace) && isRecentDate(date)) return RECENT_TTL_SECONDS;
+  return TTL_SECONDS[namespace] ?? DEFAULT_TTL_SECONDS;
+}
+
+async function read(hash: string) {
+  const entries = await getIndex();
+  const entry = entries.get(hash);
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    await removeEntry(entries, hash);
+    return null;
+  }
+  try {
+    const data = await fs.readFile(dataPath(hash));
+    entry.lastAccess = Date.now();
+    fs.utimes(dataPath(hash), new Date(), new Date()).catch(() => {});
+    return { data, meta: entry.meta };
+  } catch {
+    await removeEntry(entries, hash);
+    return null;
+  }
+}
+
+async function write(namespace: string, hash: string, data: Buffer, meta?: any, date?: string) {
+  const entries = await getIndex();
+  const now = Date.now();
+  const entry: CacheEntry = { hash, namespace, size: data.length, createdAt: now, expiresAt: now + ttlFor(namespace, date) * 1000, lastAccess: now, meta };
+  await fs.writeFile(dataPath(hash), data);
+  await fs.writeFile(metaPath(hash), JSON.stringify(entry));
+  entries.set(hash, entry);
+  await evict(entries);
+}
+
+// Drop expired entries, then least recently used ones until the cache fits the cap
+async function evict(entries: Map<string, CacheEntry>) {
+  const now = Date.now();
+  let total = 0;
+  for (const entry of Array.from(entries.values())) {
+    if (entry.expiresAt <= now) await removeEntry(entries, entry.hash);
+    else total += entry.size;
+  }
+  if (total <= MAX_CACHE_BYTES) return;
+  const byAge = Array.from(entries.values()).sort((a, b) => a.lastAccess - b.lastAccess);
+  for (const entry of byAge) {
+    if (total <= MAX_CACHE_BYTES) break;
+    total -= entry.size;
+    counters.evictions++;
+    await removeEntry(entries, entry.hash);
+  }
+}
+
+// Serve `key` from the cache or run `load` and store its result. Concurrent misses
+// for the same key share one load; failures are never cached. `date` shortens the TTL
+// of imagery that is still being filled in (see ttlFor).
+export async function withCache(
+  namespace: string,
+  key: unknown,
+  load: () => Promise<{ data: Buffer; meta?: any }>,
+  date?: string,
+): Promise<{ data: Buffer; meta?: any; cache: CacheStatus }> {
+  if (CACHE_DISABLED) return { ...(await load()), cache: 'MISS' };
+  const hash = cacheKey(namespace, key);
+  try {
+    const hit = await read(hash);
+    if (hit) {
+      counters.hits++;
+      return { ...hit, cache: 'HIT' };
+    }
+  } catch (err) {
+    await logError(`CACHE READ ERROR: namespace=${namespace}, ${err}`);
+  }
+
+  counters.misses++;
+  let pending = inFlight.get(hash);
+  if (!pending) {
+    pending = load().then(async result => {
+      try {
+        await write(namespace, hash, result.data, result.meta, date);
+      } catch (err) {
+        await logError(`CACHE WRITE ERROR: namespace=${namespace}, ${err}`);
+      }
+      return result;
+    }).finally(() => inFlight.delete(hash));
+    inFlight.set(hash, pending);
+  }
+  return { ...(await pending), cache: 'MISS' };
+}
+
+// JSON-serializable values (catalog results, parsed capabilities)
+export async function withJsonCache<T>(namespace: string, key: unknown, load: () => Promise<T>): Promise<T> {
+  const { data } = await withCache(namespace, key, async () => ({ data: Buffer.from(JSON.stringify(await load())) }));
+  return JSON.parse(data.toString('utf8'));
+}
+
+export async function cacheStats(listEntries = false) {
+  const entries = Array.from((await getIndex()).values());
+  const namespaces: Record<string, { entries: number; bytes: number; ttlSeconds: number }> = {};
+  for (const entry of entries) {
+    const ns = namespaces[entry.namespace] ||= { entries: 0, bytes: 0, ttlSeconds: ttlFor(entry.namespace) };
+    ns.entries++;
+    ns.bytes += entry.size;
+  }
+  return {
+    dir: CACHE_DIR,
+    enabled: !CACHE_DISABLED,
+    maxBytes: MAX_CACHE_BYTES,
+    totalBytes: entries.reduce((sum, e) => sum + e.size, 0),
+    entries: entries.length,
+    ...counters,
+    namespaces,
+    ...(listEntries ? {
+      items: entries
+        .sort((a, b) => b.lastAccess - a.lastAccess)
+        .map(({ hash, namespace, size, createdAt, expiresAt, lastAccess }) => ({
+          hash,
+          namespace,
+          size,
+          createdAt: new Date(createdAt).toISOString(),
+          expiresAt: new Date(expiresAt).toISOString(),
+          lastAccess: new Date(lastAccess).toISOString(),
+        })),
+    } : {}),
+  };
+}
+
+// Remove entries matching a namespace prefix (e.g. `gibs` or `gibs:image`), only expired ones, or everything
+export async function purgeCache({ namespace, expiredOnly }: { namespace?: string; expiredOnly?: boolean } = {}) {
+  const entries = await getIndex();
+  const now = Date.now();
+  let removed = 0;
+  for (const entry of Array.from(entries.values())) {
+    if (namespace && entry.namespace !== namespace && !entry.namespace.startsWith(`${namespace}:`)) continue;
+    if (expiredOnly && entry.expiresAt > now) continue;
+    await removeEntry(entries, entry.hash);
+    removed++;
+  }
+  await appendLog(`CACHE PURGE: namespace=${namespace || '*'}, expiredOnly=${!!expiredOnly}, removed=${removed}`);
+  return removed;
+}
@@ -0,0 +1,208 @@
+import sharp from 'sharp';
+import { appendLog } from '@/lib/logger';
+import { BBox, mercatorToLonLatBBox } from '@/lib/geo';
+import { CHANGE_DETECTION_EVALSCRIPT } from '@/lib/copernicus/evalscripts';
+import { ImageryError } from '@/lib/imagery/errors';
+import { fetchImageCached } from '@/lib/imagery/output';
+import type { Georeference } from '@/lib/geotiff';
+import type { ImageryProvider, ImageryQuery } from '@/lib/imagery/types';
+
+export interface ChangeDetectionOptions {
+  before: string;
+  after: string;
+  ndviThreshold: number;
+  brightnessThreshold: number;
+}
+
+export interface ChangeStats {
+  method: 'ndvi' | 'brightness';
+  validPixels: number;
+  changedPixels: number;
+  percentChanged: number;
+  meanBrightnessDelta: number;
+  meanNdviDelta: number | null;
+  percentNdviGain: number | null;
+  percentNdviLoss: number | null;
+}
+
+export interface ChangeDetectionResult {
+  provider: string;
+  before: string;
+  after: string;
+  width: number;
+  height: number;
+  georef?: Georeference;
+  // WGS84 corners for overlaying the PNGs on a map
+  bounds?: BBox;
+  stats: ChangeStats;
+  // PNG data URLs; transparent where either acquisition has no data
+  images: {
+    ndviDelta: string | null;
+    brightnessDelta: string;
+    changeMask: string;
+  };
+}
+
+// One acquisition sampled on the shared grid
+interface Sample {
+  width: number;
+  height: number;
+  acquisitionDate: string;
+  georef?: Georeference;
+  brightness: Float32Array;
+  ndvi: Float32Array | null;
+  valid: Uint8Array;
+}
+
+// Full-scale deltas for the color ramps
+const NDVI_RAMP_SCALE = 0.5;
+const BRIGHTNESS_RAMP_SCALE = 0.3;
+
+// Scene-based providers take a scene time; a bare date picks the closest scene to it
+async function acquisitionQuery(provider: ImageryProvider, query: ImageryQuery, value: string): Promise<ImageryQuery> {
+  const date = value.slice(0, 10);
+  if (!provider.describe().requiresScene) return { ...query, date };
+  if (value.length > 10) return { ...query, date, acquisitionTime: value };
+  const { closestDate } = await provider.searchAvailability({ ...query, date });
+  if (!closestDate) throw new ImageryError(`No scene found near ${date}`, 404);
+  return { ...query, date, acquisitionTime: closestDate };
+}
+
+async function sampleAcquisition(provider: ImageryProvider, query: ImageryQuery, size?: { width: number; height: number }): Promise<Sample> {
+  // Providers that run evalscripts return NDVI and brightness bytes directly
+  const packed = !!provider.describe().supportsCustomScripts;
+  const result = await fetchImageCached(provider, packed ? { ...query, evalscript: CHANGE_DETECTION_EVALSCRIPT, format: undefined } : { ...query, format: undefined });
+  let image = sharp(result.data);
+  if (size) image = image.resize(size.width, size.height, { fit: 'fill' });
+  const { data, info } = await image.ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+
+  const pixels = info.width * info.height;
+  const brightness = new Float32Array(pixels);
+  const ndvi = packed ? new Float32Array(pixels) : null;
+  const valid = new Uint8Array(pixels);
+  for (let i = 0; i < pixels; i++) {
+    const o = i * info.channels;
+    valid[i] = data[o + 3] > 0 ? 1 : 0;
+    if (ndvi) {
+      ndvi[i] = data[o] / 127.5 - 1;
+      brightness[i] = data[o + 1] / 255;
+    } else {
+      brightness[i] = (data[o] + data[o + 1] + data[o + 2]) / 765;
+    }
+  }
+  return {
+    width: info.width,
+    height: info.height,
+    acquisitionDate: result.acquisitionDate || query.acquisitionTime || query.date,
+    georef: result.georef,
+    brightness,
+    ndvi,
+    valid,
+  };
+}
+
+function sameGrid(a?: Georeference, b?: Georeference) {
+  if (!a || !b) return true;
+  if (a.crs !== b.crs) return false;
+  const tolerance = Math.abs(a.bbox[2] - a.bbox[0]) * 1e-6;
+  return a.bbox.every((v, i) => Math.abs(v - b.bbox[i]) <= tolerance);
+}
+
+// Red for decreases, green for increases, opacity proportional to the size of the change
+function renderDelta(delta: Float32Array, valid: Uint8Array, scale: number) {
+  const out = Buffer.alloc(delta.length * 4);
+  for (let i = 0; i < delta.length; i++) {
+    if (!valid[i]) continue;
+    const d = delta[i];
+    out[i * 4] = d < 0 ? 220 : 30;
+    out[i * 4 + 1] = d < 0 ? 40 : 190;
+    out[i * 4 + 2] = 40;
+    out[i * 4 + 3] = Math.round(Math.min(Math.abs(d) / scale, 1) * 255);
+  }
+  return out;
+}
+
+async function pngDataUrl(rgba: Buffer, width: number, height: number) {
+  const png = await sharp(rgba, { raw: { width, height, channels: 4 } }).png().toBuffer();
+  return `data:image/png;base64,${png.toString('base64')}`;
+}
+
+const percent = (count: number, total: number) => total > 0 ? Math.round(count / total * 10000) / 100 : 0;
+
+export async function detectChanges(
+  provider: ImageryProvider,
+  query: ImageryQuery,
+  options: ChangeDetectionOptions,
+): Promise<ChangeDetectionResult> {
+  await appendLog(`CHANGE DETECTION REQUEST: provider=${provider.id}, before=${options.before}, after=${options.after}, ndviThreshold=${options.ndviThreshold}, brightnessThreshold=${options.brightnessThreshold}`);
+
+  // 1. Both acquisitions share the query, so they resolve to the same bbox and output grid
+  const beforeQuery = await acquisitionQuery(provider, query, options.before);
+  const afterQuery = await acquisitionQuery(provider, query, options.after);
+  const before = await sampleAcquisition(provider, beforeQuery);
+  const after = await sampleAcquisition(provider, afterQuery, { width: before.width, height: before.height });
+  if (!sameGrid(before.georef, after.georef)) {
+    throw new ImageryError('The two acquisitions do not cover the same grid', 400);
+  }
+
+  // 2. Per-pixel deltas where both acquisitions have data
+  const pixels = before.width * before.height;
+  const valid = new Uint8Array(pixels);
+  const brightnessDelta = new Float32Array(pixels);
+  const ndviDelta = before.ndvi && after.ndvi ? new Float32Array(pixels) : null;
+  const mask = Buffer.alloc(pixels * 4);
+  let validPixels = 0, changedPixels = 0, gain = 0, loss = 0, brightnessSum = 0, ndviSum = 0;
+  for (let i = 0; i < pixels; i++) {
+    if (!before.valid[i] || !after.valid[i]) continue;
+    valid[i] = 1;
+    validPixels++;
+    brightnessDelta[i] = after.brightness[i] - before.brightness[i];
+    brightnessSum += brightnessDelta[i];
+    let changed;
+    if (ndviDelta) {
+      ndviDelta[i] = after.ndvi![i] - before.ndvi![i];
+      ndviSum += ndviDelta[i];
+      if (ndviDelta[i] > options.ndviThreshold) gain++;
+      if (ndviDelta[i] < -options.ndviThreshold) loss++;
+      changed = Math.abs(ndviDelta[i]) > options.ndviThreshold;
+    } else {
+      changed = Math.abs(brightnessDelta[i]) > options.brightnessThreshold;
+    }
+    if (changed) {
+      changedPixels++;
+      mask[i * 4] = 255;
+      mask[i * 4 + 2] = 255;
+      mask[i * 4 + 3] = 170;
+    }
+  }
+
+  const stats: ChangeStats = {
+    method: ndviDelta ? 'ndvi' : 'brightness',
+    validPixels,
+    changedPixels,
+    percentChanged: percent(changedPixels, validPixels),
+    meanBrightnessDelta: validPixels > 0 ? brightnessSum / validPixels : 0,
+    meanNdviDelta: ndviDelta ? (validPixels > 0 ? ndviSum / validPixels : 0) : null,
+    percentNdviGain: ndviDelta ? percent(gain, validPixels) : null,
+    percentNdviLoss: ndviDelta ? percent(loss, validPixels) : null,
+  };
+  await appendLog(`CHANGE DETECTION RESULT: provider=${provider.id}, size=${before.width}x${before.height}, method=${stats.method}, valid=${validPixels}, changed=${stats.percentChanged}%`);
+
+  // 3. Render the delta ramps and the change mask
+  const { width, height, georef } = before;
+  return {
+    provider: provider.id,
+    before: before.acquisitionDate,
+    after: after.acquisitionDate,
+    width,
+    height,
+    georef,
+    bounds: georef ? (georef.crs === 'EPSG:3857' ? mercatorToLonLatBBox(georef.bbox) : georef.bbox) : undefined,
+    stats,
+    images: {
+      ndviDelta: ndviDelta ? await pngDataUrl(renderDelta(ndviDelta, valid, NDVI_RAMP_SCALE), width, height) : null,
+      brightnessDelta: await pngDataUrl(renderDelta(brightnessDelta, valid, BRIGHTNESS_RAMP_SCALE), width, height),
+      changeMask: await pngDataUrl(mask, width, height),
+    },
+  };
+}
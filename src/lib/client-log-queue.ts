@@ -0,0 +1,141 @@
+import { MAX_CLIENT_LOG_BYTES, MAX_CLIENT_LOG_DETAILS_BYTES, MAX_CLIENT_LOG_EVENTS, type ClientLogEvent } from '@/lib/client-log';
+
+// Browser-side buffer for /api/client-log. Events are sent in batches every few
+// seconds; while the server is unreachable they wait (with backoff) and are kept in
+// localStorage when the page goes away, to be sent by the next page load.
+
+const ENDPOINT = '/api/client-log';
+const FLUSH_DELAY_MS = 5000;
+const MAX_BACKOFF_MS = 60 * 1000;
+// Oldest events are dropped past this, online or not
+const MAX_QUEUED = 500;
+const STORAGE_KEY = 'clientLogQueue';
+
+const queue: ClientLogEvent[] = [];
+let timer: ReturnType<typeof setTimeout> | undefined;
+// The batch being POSTed, if any
+let inflight: ClientLogEvent[] | null = null;
+let backoff = 0;
+let started = false;
+
+function schedule(delay = FLUSH_DELAY_MS) {
+  if (timer && delay > 0) return;
+  clearTimeout(timer);
+  timer = setTimeout(() => {
+    timer = undefined;
+    flush();
+  }, delay);
+}
+
+// The next batch: up to the server's event limit, and small enough to be accepted
+function nextBatch() {
+  const batch = queue.slice(0, MAX_CLIENT_LOG_EVENTS);
+  while (batch.length > 1 && JSON.stringify({ events: batch }).length > MAX_CLIENT_LOG_BYTES / 2) batch.pop();
+  return batch;
+}
+
+// Events can be stored away while a batch is in flight, so remove by identity
+function remove(batch: ClientLogEvent[]) {
+  const sent = new Set(batch);
+  const kept = queue.filter(event => !sent.has(event));
+  queue.splice(0, queue.length, ...kept);
+}
+
+async function flush() {
+  if (inflight || queue.length === 0) return;
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+  const batch = nextBatch();
+  inflight = batch;
+  try {
+    const res = await fetch(ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ events: batch }),
+      keepalive: true,
+    });
+    if (res.status === 429 || res.status >= 500) {
+      const retryAfter = parseInt(res.headers.get('Retry-After') || '', 10);
+      backoff = retryAfter > 0 ? retryAfter * 1000 : Math.min(MAX_BACKOFF_MS, (backoff || FLUSH_DELAY_MS) * 2);
+    } else {
+      // Accepted, or refused for good (bad or oversized events): either way don't resend
+      remove(batch);
+      backoff = 0;
+    }
+  } catch {
+    // Server unreachable; keep the events and back off
+    backoff = Math.min(MAX_BACKOFF_MS, (backoff || FLUSH_DELAY_MS) * 2);
+  } finally {
+    inflight = null;
+  }
+  if (queue.length > 0) schedule(backoff || (queue.length >= MAX_CLIENT_LOG_EVENTS ? 0 : FLUSH_DELAY_MS));
+}
+
+function persist() {
+  if (queue.length === 0) return;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    // Other tabs may have stored theirs already
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...stored, ...queue].slice(-MAX_QUEUED)));
+    queue.length = 0;
+  } catch {
+    // Storage full or disabled; the events are lost
+  }
+}
+
+// Page hidden or closing: beacon what we can, keep the rest for the next visit
+function drain() {
+  if (timer) {
+    clearTimeout(timer);
+    timer = undefined;
+  }
+  // A batch already in flight is left to its keepalive request
+  if (inflight) remove(inflight);
+  if (navigator.onLine !== false && typeof navigator.sendBeacon === 'function') {
+    while (queue.length > 0) {
+      const batch = nextBatch();
+      const body = new Blob([JSON.stringify({ events: batch })], { type: 'application/json' });
+      if (!navigator.sendBeacon(ENDPOINT, body)) break;
+      remove(batch);
+    }
+  }
+  persist();
+}
+
+// Take over events stored by an earlier page (or this one, while hidden)
+function restore() {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    localStorage.removeItem(STORAGE_KEY);
+    if (Array.isArray(stored)) queue.unshift(...stored.slice(-MAX_QUEUED));
+  } catch {
+    // Nothing usable stored
+  }
+  if (queue.length > 0) schedule();
+}
+
+function start() {
+  started = true;
+  restore();
+  window.addEventListener('online', () => {
+    backoff = 0;
+    flush();
+  });
+  window.addEventListener('pagehide', drain);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') drain();
+    else restore();
+  });
+}
+
+// Queue one event; it goes out with the next batch
+export function queueClientLog(event: ClientLogEvent) {
+  if (typeof window === 'undefined') return;
+  if (!started) start();
+  // The server refuses oversized details (a long polygon AOI); keep the action at least
+  if (event.details && new Blob([JSON.stringify(event.details)]).size > MAX_CLIENT_LOG_DETAILS_BYTES) {
+    event = { ...event, details: { truncated: true, keys: Object.keys(event.details) } };
+  }
+  queue.push(event);
+  if (queue.length > MAX_QUEUED) queue.splice(0, queue.length - MAX_QUEUED);
+  schedule(queue.length >= MAX_CLIENT_LOG_EVENTS ? 0 : FLUSH_DELAY_MS);
+}
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// Settings are read when the module loads
+async function load(env: Record<string, string> = {}) {
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+  vi.resetModules();
+  delete (globalThis as any).__clientLogRate;
+  return import('./client-log');
+}
+
+const request = (forwardedFor?: string) =>
+  new Request('http://localhost/api/client-log', { headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {} });
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('clientIp', () => {
+  it('ignores X-Forwarded-For without a trusted proxy', async () => {
+    const { clientIp } = await load();
+    expect(clientIp(request('1.2.3.4'))).toBe(clientIp(request('5.6.7.8')));
+  });
+
+  it('takes the entry added by the trusted proxies', async () => {
+    const { clientIp } = await load({ TRUST_PROXY: '1' });
+    expect(clientIp(request('6.6.6.6, 1.2.3.4'))).toBe('1.2.3.4');
+    expect(clientIp(request('1.2.3.4'))).toBe('1.2.3.4');
+    const twoHops = await load({ TRUST_PROXY: '2' });
+    expect(twoHops.clientIp(request('6.6.6.6, 1.2.3.4, 10.0.0.1'))).toBe('1.2.3.4');
+  });
+});
+
+describe('validateClientLogEvent', () => {
+  it('keeps the known fields of a valid event', async () => {
+    const { validateClientLogEvent } = await load();
+    expect(validateClientLogEvent({ action: 'map_click', actionId: 'abc', details: { lat: 1 }, timestamp: '2024-01-01T00:00:00Z', extra: 1 }))
+      .toEqual({ action: 'map_click', actionId: 'abc', details: { lat: 1 }, timestamp: '2024-01-01T00:00:00Z' });
+  });
+
+  it('explains what is wrong with an invalid one', async () => {
+    const { validateClientLogEvent, MAX_CLIENT_LOG_DETAILS_BYTES } = await load();
+    expect(validateClientLogEvent('click')).toMatch(/object/);
+    expect(validateClientLogEvent({ action: 'Map Click' })).toMatch(/action/);
+    expect(validateClientLogEvent({ action: 'a', actionId: '<script>' })).toMatch(/actionId/);
+    expect(validateClientLogEvent({ action: 'a', timestamp: 'yesterday' })).toMatch(/timestamp/);
+    expect(validateClientLogEvent({ action: 'a', details: [1] })).toMatch(/details/);
+    expect(validateClientLogEvent({ action: 'a', details: { text: 'x'.repeat(MAX_CLIENT_LOG_DETAILS_BYTES) } })).toMatch(/bytes/);
+  });
+});
+
+describe('takeRateLimit', () => {
+  it('refuses events past the limit until the window ends', async () => {
+    vi.useFakeTimers();
+    try {
+      const { takeRateLimit } = await load({ CLIENT_LOG_RATE_LIMIT: '10' });
+      expect(takeRateLimit('a', 8).retryAfter).toBe(0);
+      // A batch that would pass the limit is refused whole, and only the first refusal warns
+      expect(takeRateLimit('a', 5)).toEqual({ retryAfter: 60, warn: true });
+      expect(takeRateLimit('a', 2).retryAfter).toBe(0);
+      expect(takeRateLimit('a', 0)).toEqual({ retryAfter: 60, warn: false });
+      expect(takeRateLimit('b', 10).retryAfter).toBe(0);
+      vi.advanceTimersByTime(60_000);
+      expect(takeRateLimit('a', 10).retryAfter).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('gives the shared bucket a larger default budget than a single client', async () => {
+    const shared = await load();
+    expect(shared.takeRateLimit(shared.clientIp(request()), 6000).retryAfter).toBe(0);
+    expect(shared.takeRateLimit(shared.clientIp(request()), 1).retryAfter).toBeGreaterThan(0);
+    const perClient = await load({ TRUST_PROXY: '1' });
+    expect(perClient.takeRateLimit('1.2.3.4', 601).retryAfter).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,90 @@
+// Limits and validation for /api/client-log. The constants are shared with the
+// explorer's buffered logger (client-log-queue.ts) so it never builds a batch the
+// server would refuse.
+
+export const MAX_CLIENT_LOG_BYTES = 64 * 1024;
+export const MAX_CLIENT_LOG_EVENTS = 50;
+export const MAX_CLIENT_LOG_DETAILS_BYTES = 4 * 1024;
+
+// Proxies in front of the app (TRUST_PROXY=1 behind one reverse proxy). Each appends the
+// address it saw to x-forwarded-for, so the entry that many from the right is the client;
+// anything left of it came from the client and may be forged.
+const TRUST_PROXY = Math.max(0, parseInt(process.env.TRUST_PROXY || '0', 10) || 0);
+
+// Events per IP per minute; one invalid request counts as one event. Without TRUST_PROXY
+// callers cannot be told apart (see clientIp), so the limit is one budget shared by every
+// client of the process and its default is sized for many browsers rather than one.
+const DEFAULT_RATE_LIMIT = TRUST_PROXY ? 600 : 6000;
+const RATE_LIMIT = Math.max(1, parseInt(process.env.CLIENT_LOG_RATE_LIMIT || '', 10) || DEFAULT_RATE_LIMIT);
+const RATE_WINDOW_MS = 60 * 1000;
+
+export interface ClientLogEvent {
+  action: string;
+  actionId?: string;
+  details?: Record<string, unknown>;
+  timestamp?: string;
+}
+
+const ACTION = /^[a-z][a-z0-9_]{0,63}$/;
+const ACTION_ID = /^[A-Za-z0-9._-]{1,64}$/;
+
+// A clean event, or the reason it was refused. Unknown fields are dropped.
+export function validateClientLogEvent(raw: unknown): ClientLogEvent | string {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return 'event must be an object';
+  const { action, actionId, details, timestamp } = raw as Record<string, unknown>;
+  if (typeof action !== 'string' || !ACTION.test(action)) return 'action must be a snake_case name of up to 64 characters';
+  if (actionId !== undefined && (typeof actionId !== 'string' || !ACTION_ID.test(actionId))) return 'actionId must be up to 64 letters, digits, dots, dashes or underscores';
+  if (timestamp !== undefined && (typeof timestamp !== 'string' || timestamp.length > 40 || isNaN(Date.parse(timestamp)))) return 'timestamp must be an ISO date string';
+  if (details !== undefined && details !== null) {
+    if (typeof details !== 'object' || Array.isArray(details)) return 'details must be an object';
+    if (Buffer.byteLength(JSON.stringify(details)) > MAX_CLIENT_LOG_DETAILS_BYTES) return `details must be at most ${MAX_CLIENT_LOG_DETAILS_BYTES} bytes`;
+  }
+  return {
+    action,
+    ...(actionId ? { actionId: actionId as string } : {}),
+    ...(details ? { details: details as Record<string, unknown> } : {}),
+    ...(timestamp ? { timestamp: timestamp as string } : {}),
+  };
+}
+
+interface RateWindow {
+  start: number;
+  count: number;
+  // Set once the first refusal in this window has been logged
+  warned: boolean;
+}
+
+// Each route bundle gets its own copy of this module; keep one state per process
+const windows: Map<string, RateWindow> = (globalThis as any).__clientLogRate ||= new Map();
+
+// Rate-limit key for the caller. Route handlers never see the socket address, and without
+// a trusted proxy every forwarded header is client-controlled, so all callers share one key.
+export function clientIp(request: Request) {
+  if (!TRUST_PROXY) return 'all';
+  const hops = (request.headers.get('x-forwarded-for') || '').split(',').map(entry => entry.trim()).filter(Boolean);
+  return hops[hops.length - TRUST_PROXY] || 'unknown';
+}
+
+// Count `cost` events against the IP's window (0 just checks it). `retryAfter` is the
+// seconds to wait when the limit is reached, and nothing is counted then; else 0.
+// `warn` is true for the first refusal in a window.
+export function takeRateLimit(ip: string, cost: number) {
+  const now = Date.now();
+  if (windows.size > 10000) {
+    for (const [key, window] of windows) {
+      if (now - window.start >= RATE_WINDOW_MS) windows.delete(key);
+    }
+  }
+  let window = windows.get(ip);
+  if (!window || now - window.start >= RATE_WINDOW_MS) {
+    window = { start: now, count: 0, warned: false };
+    windows.set(ip, window);
+  }
+  if (window.count >= RATE_LIMIT || window.count + cost > RATE_LIMIT) {
+    const warn = !window.warned;
+    window.warned = true;
+    return { retryAfter: Math.ceil((window.start + RATE_WINDOW_MS - now) / 1000), warn };
+  }
+  window.count += cost;
+  return { retryAfter: 0, warn: false };
+}
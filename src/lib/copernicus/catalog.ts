@@ -0,0 +1,134 @@
+import { appendLog, logError } from '@/lib/logger';
+import { withJsonCache } from '@/lib/cache';
+import { ImageryError } from '@/lib/imagery/errors';
+import type { BBox, PolygonGeometry } from '@/lib/geo';
+import type { ImageryQuery, Scene, SceneSearchResult, SceneSort } from '@/lib/imagery/types';
+import type { CollectionSpec } from './collections';
+import { getCopernicusTokenManager } from './token';
+
+// Overridable so the provider can run against local stub servers
+const SH_BASE_URL = process.env.COPERNICUS_SH_URL || 'https://sh.dataspace.copernicus.eu';
+const SEARCH_URL = `${SH_BASE_URL}/api/v1/catalog/1.0.0/search`;
+
+// Largest page the Catalog API returns
+const PAGE_SIZE = 100;
+export const DEFAULT_MAX_RESULTS = 500;
+export const MAX_RESULTS = 2000;
+
+const SORT_FIELDS: Record<SceneSort['field'], string> = {
+  datetime: 'properties.datetime',
+  cloudCover: 'properties.eo:cloud_cover',
+};
+
+export interface CatalogSearch extends Pick<ImageryQuery, 'maxCloudCover' | 'platform' | 'tileId' | 'orbitDirection' | 'polarization' | 'sort' | 'maxResults'> {
+  collection: CollectionSpec;
+  bbox: BBox;
+  // Searched with `intersects` instead of the bbox when given
+  aoi?: PolygonGeometry;
+  // ISO datetimes, inclusive
+  from: string;
+  to: string;
+}
+
+// Catalog footprints are Polygons, or MultiPolygons across the antimeridian; keep the first ring set
+function footprintOf(geometry: any): PolygonGeometry | undefined {
+  if (geometry?.type === 'Polygon') return { type: 'Polygon', coordinates: geometry.coordinates };
+  if (geometry?.type === 'MultiPolygon' && geometry.coordinates.length > 0) return { type: 'Polygon', coordinates: geometry.coordinates[0] };
+  return undefined;
+}
+
+function toScene(f: any): Scene {
+  return {
+    id: f.id,
+    datetime: f.properties.datetime,
+    cloudCover: f.properties['eo:cloud_cover'],
+    platform: f.properties.platform,
+    instruments: f.properties.instruments,
+    bbox: f.bbox,
+    footprint: footprintOf(f.geometry),
+    orbitDirection: f.properties['sat:orbit_state']?.toUpperCase(),
+    polarization: f.properties['s1:polarization'],
+  };
+}
+
+// CQL2-JSON filter on scene properties; undefined when nothing is filtered
+export function buildCqlFilter(search: CatalogSearch) {
+  const { collection } = search;
+  if (search.maxCloudCover !== undefined && !collection.cloudCover) {
+    throw new ImageryError(`Invalid parameter: ${collection.label} scenes have no cloud cover`, 400);
+  }
+  if (search.tileId && !collection.tiling) {
+    throw new ImageryError(`Invalid parameter: ${collection.label} has no tile ids`, 400);
+  }
+  if (search.tileId && collection.tiling && !collection.tiling.pattern.test(search.tileId)) {
+    throw new ImageryError(`Invalid parameter: tileId must be a ${collection.tiling.name}`, 400);
+  }
+
+  const property = (name: string) => ({ property: name });
+  const clauses: any[] = [];
+  if (search.maxCloudCover !== undefined) clauses.push({ op: '<=', args: [property('eo:cloud_cover'), search.maxCloudCover] });
+  if (search.platform) clauses.push({ op: '=', args: [property('platform'), search.platform.toLowerCase()] });
+  if (search.tileId && collection.tiling) clauses.push({ op: 'like', args: [property('id'), collection.tiling.idLike(search.tileId)] });
+  if (search.orbitDirection && collection.filters.includes('orbitDirection')) {
+    clauses.push({ op: '=', args: [property('sat:orbit_state'), search.orbitDirection.toLowerCase()] });
+  }
+  if (search.polarization && collection.filters.includes('polarization')) {
+    clauses.push({ op: '=', args: [property('s1:polarization'), search.polarization] });
+  }
+  if (clauses.length === 0) return undefined;
+  return clauses.length === 1 ? clauses[0] : { op: 'and', args: clauses };
+}
+
+async function fetchPage(body: any) {
+  const res = await getCopernicusTokenManager().authorizedFetch(SEARCH_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const errorText = await res.text();
+    await logError(`Copernicus Catalog API Error: ${res.status} - ${errorText}`);
+    throw new ImageryError('Failed to search Catalog API', res.status, { details: errorText });
+  }
+  return res.json();
+}
+
+// STAC search following `next` pages until the last one or maxResults scenes
+export async function searchCatalog(search: CatalogSearch): Promise<SceneSearchResult> {
+  if (!search.collection.catalogId) {
+    throw new ImageryError(`${search.collection.label} has no catalog to search`, 400);
+  }
+  const maxResults = Math.floor(Math.min(search.maxResults ?? DEFAULT_MAX_RESULTS, MAX_RESULTS));
+  const filter = buildCqlFilter(search);
+  const body = {
+    collections: [search.collection.catalogId],
+    ...(search.aoi ? { intersects: search.aoi } : { bbox: search.bbox }),
+    datetime: `${search.from}/${search.to}`,
+    limit: Math.min(PAGE_SIZE, maxResults),
+    ...(filter ? { filter, 'filter-lang': 'cql2-json' } : {}),
+    ...(search.sort ? { sortby: [{ field: SORT_FIELDS[search.sort.field], direction: search.sort.direction }] } : {}),
+  };
+
+  return withJsonCache('copernicus:catalog', { body, maxResults }, async () => {
+    const scenes: Scene[] = [];
+    let matched: number | undefined;
+    let next: unknown;
+    let pages = 0;
+    do {
+      const page = await fetchPage(next === undefined ? body : { ...body, next });
+      pages++;
+      scenes.push(...(page.features || []).map(toScene));
+      matched = page.context?.matched ?? matched;
+      // POST searches carry the next page token in the `next` link body
+      next = page.links?.find((l: any) => l.rel === 'next')?.body?.next ?? page.context?.next ?? undefined;
+    } while (next !== undefined && scenes.length < maxResults);
+
+    const truncated = next !== undefined || scenes.length > maxResults;
+    await appendLog(`Copernicus Catalog Search: collection=${search.collection.id}, pages=${pages}, scenes=${scenes.length}, matched=${matched}, truncated=${truncated}`);
+    return {
+      scenes: scenes.slice(0, maxResults),
+      total: matched ?? (truncated ? null : scenes.length),
+      truncated,
+    };
+  });
+}
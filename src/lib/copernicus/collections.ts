@@ -0,0 +1,157 @@
+import { ImageryError } from '@/lib/imagery/errors';
+import type { CollectionFilter, CollectionInfo } from '@/lib/imagery/types';
+import {
+  DEM_PRODUCTS,
+  EvalscriptProduct,
+  LANDSAT_PRODUCTS,
+  SENTINEL1_PRODUCTS,
+  SENTINEL2_INPUTS,
+  SENTINEL2_PRODUCTS,
+  SENTINEL3_OLCI_PRODUCTS,
+  listProducts,
+} from './evalscripts';
+
+export const DEFAULT_COLLECTION = 'sentinel-2-l2a';
+
+export interface CollectionSpec {
+  id: string;
+  label: string;
+  description: string;
+  // Process API `input.data[].type`
+  processType: string;
+  // Catalog API collection; null for static datasets without acquisitions (DEM)
+  catalogId: string | null;
+  products: EvalscriptProduct[];
+  defaultProduct: string;
+  // Band names accepted in custom evalscripts
+  inputs: Set<string>;
+  cloudCover: boolean;
+  // Per-pixel cloud mask for composites and AOI cloud cover (Sentinel-2 L2A scene classification)
+  cloudMask?: 'SCL';
+  filters: CollectionFilter[];
+  // Normalized-difference indices for statistics: [a, b] gives (a - b) / (a + b)
+  indices?: Record<string, [string, string]>;
+  // How `tileId` matches scene ids (CQL2 `like` pattern), for tiled products
+  tiling?: { name: string; pattern: RegExp; idLike: (tileId: string) => string };
+  // Extra Process API `dataFilter` / `processing` options
+  dataFilter?: Record<string, unknown>;
+  processing?: Record<string, unknown>;
+}
+
+const MGRS_TILING = { name: 'MGRS tile, e.g. 33TUL', pattern: /^\d{2}[A-Z]{3}$/, idLike: (tileId: string) => `%_T${tileId}_%` };
+const WRS2_TILING = { name: 'WRS-2 path/row, e.g. 190031', pattern: /^\d{6}$/, idLike: (tileId: string) => `%_${tileId}_%` };
+
+const SENTINEL2_INDICES: Record<string, [string, string]> = { ndvi: ['B08', 'B04'], ndwi: ['B03', 'B08'], nbr: ['B08', 'B12'] };
+
+const band = (prefix: string, numbers: number[]) => numbers.map(n => `${prefix}${String(n).padStart(2, '0')}`);
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+const COLLECTIONS: CollectionSpec[] = [
+  {
+    id: 'sentinel-2-l2a',
+    label: 'Sentinel-2 L2A',
+    description: 'Surface reflectance, 10-60 m, every 5 days',
+    processType: 'sentinel-2-l2a',
+    catalogId: 'sentinel-2-l2a',
+    products: SENTINEL2_PRODUCTS,
+    defaultProduct: 'true-color',
+    inputs: SENTINEL2_INPUTS,
+    cloudCover: true,
+    cloudMask: 'SCL',
+    filters: [],
+    tiling: MGRS_TILING,
+    indices: SENTINEL2_INDICES,
+  },
+  {
+    id: 'sentinel-2-l1c',
+    label: 'Sentinel-2 L1C',
+    description: 'Top-of-atmosphere reflectance, 10-60 m, every 5 days',
+    processType: 'sentinel-2-l1c',
+    catalogId: 'sentinel-2-l1c',
+    products: SENTINEL2_PRODUCTS,
+    defaultProduct: 'true-color',
+    inputs: new Set([...band('B', range(1, 12)), 'B8A', 'dataMask', 'sunAzimuthAngles', 'sunZenithAngles', 'viewAzimuthMean', 'viewZenithMean']),
+    cloudCover: true,
+    filters: [],
+    tiling: MGRS_TILING,
+    indices: SENTINEL2_INDICES,
+  },
+  {
+    id: 'sentinel-1-grd',
+    label: 'Sentinel-1 GRD (SAR)',
+    description: 'C-band radar backscatter, 10 m; sees through clouds and at night',
+    processType: 'sentinel-1-grd',
+    catalogId: 'sentinel-1-grd',
+    products: SENTINEL1_PRODUCTS,
+    defaultProduct: 'vv-db',
+    inputs: new Set(['VV', 'VH', 'HH', 'HV', 'dataMask', 'localIncidenceAngle', 'scatteringArea', 'shadowMask']),
+    cloudCover: false,
+    filters: ['orbitDirection', 'polarization'],
+    dataFilter: { acquisitionMode: 'IW', resolution: 'HIGH' },
+    processing: { backCoeff: 'SIGMA0_ELLIPSOID', orthorectify: true },
+  },
+  {
+    id: 'sentinel-3-olci',
+    label: 'Sentinel-3 OLCI',
+    description: 'Ocean and land color, 300 m, daily',
+    processType: 'sentinel-3-olci',
+    catalogId: 'sentinel-3-olci',
+    products: SENTINEL3_OLCI_PRODUCTS,
+    defaultProduct: 'true-color',
+    inputs: new Set([...band('B', range(1, 21)), 'dataMask']),
+    cloudCover: false,
+    filters: [],
+    indices: { ndvi: ['B17', 'B08'] },
+  },
+  {
+    id: 'landsat-ot-l2',
+    label: 'Landsat 8-9 L2',
+    description: 'Surface reflectance, 30 m, every 8 days',
+    processType: 'landsat-ot-l2',
+    catalogId: 'landsat-ot-l2',
+    products: LANDSAT_PRODUCTS,
+    defaultProduct: 'true-color',
+    inputs: new Set([...band('B', range(1, 7)), 'B10', 'BQA', 'QA_RADSAT', 'dataMask']),
+    cloudCover: true,
+    filters: [],
+    tiling: WRS2_TILING,
+    indices: { ndvi: ['B05', 'B04'], ndwi: ['B03', 'B05'], nbr: ['B05', 'B07'] },
+  },
+  {
+    id: 'dem',
+    label: 'Copernicus DEM',
+    description: 'GLO-30 elevation model, 30 m; static, no acquisitions',
+    processType: 'dem',
+    catalogId: null,
+    products: DEM_PRODUCTS,
+    defaultProduct: 'hillshade',
+    inputs: new Set(['DEM', 'dataMask']),
+    cloudCover: false,
+    filters: [],
+    dataFilter: { demInstance: 'COPERNICUS_30' },
+  },
+];
+
+export function listCollections(): CollectionInfo[] {
+  return COLLECTIONS.map(c => ({
+    label: c.label,
+    value: c.id,
+    description: c.description,
+    products: listProducts(c.products),
+    defaultProduct: c.defaultProduct,
+    filters: c.filters,
+    cloudCover: c.cloudCover,
+    static: c.catalogId === null,
+    cloudMask: c.cloudMask !== undefined,
+    indices: Object.keys(c.indices || {}),
+    ...(c.tiling ? { tileIdHint: c.tiling.name } : {}),
+  }));
+}
+
+export function getCollection(id?: string): CollectionSpec {
+  const collection = COLLECTIONS.find(c => c.id === (id || DEFAULT_COLLECTION));
+  if (!collection) {
+    throw new ImageryError(`Unknown collection: ${id}`, 400, { collections: COLLECTIONS.map(c => c.id) });
+  }
+  return collection;
+}
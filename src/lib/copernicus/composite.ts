@@ -0,0 +1,115 @@
+import sharp from 'sharp';
+import { ImageryError } from '@/lib/imagery/errors';
+import { readTar } from '@/lib/tar';
+import { CLOUDY_SCL_CLASSES, EvalscriptProduct } from './evalscripts';
+
+export const COMPOSITE_METHODS = ['median', 'least-cloudy'] as const;
+export type CompositeMethod = typeof COMPOSITE_METHODS[number];
+
+// Values of the per-pixel `cloud` output
+const CLOUD_CLEAR = 0;
+const CLOUD_REMAINING = 1;
+const CLOUD_NO_DATA = 255;
+
+// Wrap a single-scene product evalscript into a multi-temporal one: every pixel
+// renders a cloud-free sample (per-band median, or the one from the least cloudy
+// scene), falling back to all samples where no acquisition is clear. A second
+// `cloud` output flags those fallbacks and userData lists the scenes used.
+export function compositeEvalscript(product: EvalscriptProduct, method: CompositeMethod) {
+  const body = product.evalscript
+    .replace('//VERSION=3', '')
+    .replace('function setup(', 'function productSetup(')
+    .replace('function evaluatePixel(', 'function productPixel(');
+  return `//VERSION=3
+${body.trim()}
+
+const CLOUDY = ${JSON.stringify(CLOUDY_SCL_CLASSES)};
+const METHOD = "${method}";
+let BANDS = [];
+let OUTPUT_BANDS = 3;
+const used = {};
+
+function setup() {
+  const product = productSetup();
+  BANDS = product.input.filter(band => band !== "SCL" && band !== "dataMask");
+  OUTPUT_BANDS = product.output.bands;
+  return {
+    input: [{ bands: BANDS.concat(["SCL", "dataMask"]) }],
+    output: [
+      { id: "default", bands: OUTPUT_BANDS },
+      { id: "cloud", bands: 1, sampleType: "UINT8" }
+    ],
+    mosaicking: "ORBIT"
+  };
+}
+
+function median(values) {
+  const sorted = values.slice().sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function sceneCloudCover(scenes, i) {
+  const tiles = scenes.orbits[i].tiles;
+  return tiles.length > 0 ? tiles[0].cloudCoverage : 100;
+}
+
+function evaluatePixel(samples, scenes) {
+  const valid = [];
+  for (let i = 0; i < samples.length; i++) {
+    if (samples[i].dataMask === 1) valid.push(i);
+  }
+  if (valid.length === 0) {
+    return { default: new Array(OUTPUT_BANDS).fill(0), cloud: [${CLOUD_NO_DATA}] };
+  }
+  const clear = valid.filter(i => CLOUDY.indexOf(samples[i].SCL) < 0);
+  const pool = clear.length > 0 ? clear : valid;
+  let sample;
+  if (METHOD === "median") {
+    sample = { dataMask: 1 };
+    for (const band of BANDS) sample[band] = median(pool.map(i => samples[i][band]));
+    for (const i of pool) used[scenes.orbits[i].dateFrom] = true;
+  } else {
+    const best = pool.reduce((a, b) => (sceneCloudCover(scenes, b) < sceneCloudCover(scenes, a) ? b : a));
+    sample = samples[best];
+    used[scenes.orbits[best].dateFrom] = true;
+  }
+  return { default: productPixel(sample), cloud: [clear.length > 0 ? ${CLOUD_CLEAR} : ${CLOUD_REMAINING}] };
+}
+
+function updateOutputMetadata(scenes, inputMetadata, outputMetadata) {
+  outputMetadata.userData = { scenes: Object.keys(used).sort() };
+}
+`;
+}
+
+// Split the Process API's multi-output tar into the image, the share of
+// pixels left cloudy and the contributing scenes
+export async function readCompositeResponse(archive: Buffer) {
+  const files = new Map(readTar(archive).map(entry => [entry.name.replace(/\.[^.]+$/, ''), entry.data]));
+  const image = files.get('default');
+  const cloud = files.get('cloud');
+  if (!image || !cloud) {
+    throw new ImageryError('Unexpected composite response from Copernicus API', 502, { files: Array.from(files.keys()) });
+  }
+
+  const { data } = await sharp(cloud).toColourspace('b-w').raw().toBuffer({ resolveWithObject: true });
+  let valid = 0;
+  let cloudy = 0;
+  for (const value of data) {
+    if (value === CLOUD_NO_DATA) continue;
+    valid++;
+    if (value === CLOUD_REMAINING) cloudy++;
+  }
+
+  let scenes: string[] = [];
+  const userdata = files.get('userdata');
+  if (userdata) {
+    try {
+      scenes = JSON.parse(userdata.toString('utf8')).scenes || [];
+    } catch {
+      // Scene list is informational; the image is still usable
+    }
+  }
+  return { image, cloudPercent: valid > 0 ? (cloudy / valid) * 100 : 0, scenes };
+}
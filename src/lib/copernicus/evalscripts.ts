@@ -0,0 +1,378 @@
+import { ImageryError } from '@/lib/imagery/errors';
+import type { ProductInfo } from '@/lib/imagery/types';
+
+export interface EvalscriptProduct extends ProductInfo {
+  evalscript: string;
+  // Server-side step applied to the rendered bytes (e.g. DEM hillshading)
+  postprocess?: 'hillshade';
+}
+
+export const CUSTOM_PRODUCT = 'custom';
+
+// Sentinel-2 scene classification (SCL) classes treated as cloud:
+// cloud shadow, medium and high probability cloud, thin cirrus
+export const CLOUDY_SCL_CLASSES = [3, 8, 9, 10];
+
+function ndviEvalscript(nir: string, red: string) {
+  return `//VERSION=3
+function setup() {
+  return {
+    input: ["${red}", "${nir}", "dataMask"],
+    output: { bands: 4 }
+  };
+}
+const ramp = [
+  [-0.2, 0x0c0c0c],
+  [0.0, 0xbfbfbf],
+  [0.1, 0xeaeaea],
+  [0.2, 0xccc682],
+  [0.3, 0x91bf51],
+  [0.4, 0x70a33f],
+  [0.5, 0x4f892d],
+  [0.6, 0x306d1c],
+  [0.8, 0x0f540a],
+  [1.0, 0x004400]
+];
+const visualizer = new ColorRampVisualizer(ramp);
+function evaluatePixel(sample) {
+  const ndvi = index(sample.${nir}, sample.${red});
+  const [r, g, b] = visualizer.process(ndvi);
+  return [r, g, b, sample.dataMask];
+}
+`;
+}
+
+// Plain band composite with a brightness gain
+function compositeEvalscript([r, g, b]: string[], gain = 2.5) {
+  const bands = Array.from(new Set([r, g, b])).sort();
+  return `//VERSION=3
+function setup() {
+  return {
+    input: [${bands.map(band => `"${band}"`).join(', ')}],
+    output: { bands: 3 }
+  };
+}
+function evaluatePixel(sample) {
+  return [${gain} * sample.${r}, ${gain} * sample.${g}, ${gain} * sample.${b}];
+}
+`;
+}
+
+// Named Sentinel-2 renderings selectable via ?product= (L2A and L1C share band names)
+export const SENTINEL2_PRODUCTS: EvalscriptProduct[] = [
+  {
+    label: 'True Color',
+    value: 'true-color',
+    description: 'Natural color composite (B04, B03, B02)',
+    evalscript: `//VERSION=3
+function setup() {
+  return {
+    input: ["B02", "B03", "B04"],
+    output: { bands: 3 }
+  };
+}
+function evaluatePixel(sample) {
+  return [2.5 * sample.B04, 2.5 * sample.B03, 2.5 * sample.B02];
+}
+`,
+  },
+  {
+    label: 'False Color (Infrared)',
+    value: 'false-color',
+    description: 'Vegetation shows up red (B08, B04, B03)',
+    evalscript: `//VERSION=3
+function setup() {
+  return {
+    input: ["B03", "B04", "B08"],
+    output: { bands: 3 }
+  };
+}
+function evaluatePixel(sample) {
+  return [2.5 * sample.B08, 2.5 * sample.B04, 2.5 * sample.B03];
+}
+`,
+  },
+  {
+    label: 'NDVI',
+    value: 'ndvi',
+    description: 'Normalized Difference Vegetation Index with a brown-to-green ramp',
+    evalscript: ndviEvalscript('B08', 'B04'),
+  },
+  {
+    label: 'NDWI',
+    value: 'ndwi',
+    description: 'Normalized Difference Water Index (B03, B08); water in blue',
+    evalscript: `//VERSION=3
+function setup() {
+  return {
+    input: ["B03", "B08", "dataMask"],
+    output: { bands: 4 }
+  };
+}
+const ramp = [
+  [-0.8, 0x008000],
+  [0.0, 0xffffff],
+  [0.8, 0x0000cc]
+];
+const visualizer = new ColorRampVisualizer(ramp);
+function evaluatePixel(sample) {
+  const ndwi = index(sample.B03, sample.B08);
+  const [r, g, b] = visualizer.process(ndwi);
+  return [r, g, b, sample.dataMask];
+}
+`,
+  },
+  {
+    label: 'NBR (Burn Ratio)',
+    value: 'nbr',
+    description: 'Normalized Burn Ratio (B08, B12); burned areas appear dark red',
+    evalscript: `//VERSION=3
+function setup() {
+  return {
+    input: ["B08", "B12", "dataMask"],
+    output: { bands: 4 }
+  };
+}
+const ramp = [
+  [-0.5, 0x7a0403],
+  [-0.1, 0xe4561e],
+  [0.1, 0xf4e7a1],
+  [0.3, 0x7cc35b],
+  [0.6, 0x1a6e2f]
+];
+const visualizer = new ColorRampVisualizer(ramp);
+function evaluatePixel(sample) {
+  const nbr = index(sample.B08, sample.B12);
+  const [r, g, b] = visualizer.process(nbr);
+  return [r, g, b, sample.dataMask];
+}
+`,
+  },
+  {
+    label: 'SWIR Agriculture',
+    value: 'swir-agriculture',
+    description: 'Crop health composite (B11, B08, B02)',
+    evalscript: `//VERSION=3
+function setup() {
+  return {
+    input: ["B02", "B08", "B11"],
+    output: { bands: 3 }
+  };
+}
+function evaluatePixel(sample) {
+  return [2.5 * sample.B11, 2.5 * sample.B08, 2.5 * sample.B02];
+}
+`,
+  },
+];
+
+// Sentinel-1 backscatter in dB, stretched so -25 dB is black and 0 dB white (VH: -30 to -5 dB)
+function sarEvalscript(polarization: 'VV' | 'VH') {
+  const [low, high] = polarization === 'VV' ? [-25, 0] : [-30, -5];
+  return `//VERSION=3
+function setup() {
+  return {
+    input: ["${polarization}", "dataMask"],
+    output: { bands: 4 }
+  };
+}
+function toDb(value) {
+  return 10 * Math.log(Math.max(value, 1e-5)) / Math.LN10;
+}
+function evaluatePixel(sample) {
+  const v = Math.min(Math.max((toDb(sample.${polarization}) - (${low})) / ${high - low}, 0), 1);
+  return [v, v, v, sample.dataMask];
+}
+`;
+}
+
+export const SENTINEL1_PRODUCTS: EvalscriptProduct[] = [
+  {
+    label: 'VV Backscatter (dB)',
+    value: 'vv-db',
+    description: 'Co-polarized backscatter; water and smooth surfaces appear dark',
+    evalscript: sarEvalscript('VV'),
+  },
+  {
+    label: 'VH Backscatter (dB)',
+    value: 'vh-db',
+    description: 'Cross-polarized backscatter; sensitive to vegetation volume',
+    evalscript: sarEvalscript('VH'),
+  },
+  {
+    label: 'Dual-pol Composite',
+    value: 'dual-pol',
+    description: 'VV, VH and VV/VH ratio as RGB (needs dual-polarization scenes)',
+    evalscript: `//VERSION=3
+function setup() {
+  return {
+    input: ["VV", "VH", "dataMask"],
+    output: { bands: 4 }
+  };
+}
+function toDb(value) {
+  return 10 * Math.log(Math.max(value, 1e-5)) / Math.LN10;
+}
+function stretch(value, low, high) {
+  return Math.min(Math.max((value - low) / (high - low), 0), 1);
+}
+function evaluatePixel(sample) {
+  const vv = toDb(sample.VV);
+  const vh = toDb(sample.VH);
+  return [stretch(vv, -25, 0), stretch(vh, -30, -5), stretch(vv - vh, 0, 15), sample.dataMask];
+}
+`,
+  },
+];
+
+export const SENTINEL3_OLCI_PRODUCTS: EvalscriptProduct[] = [
+  {
+    label: 'True Color',
+    value: 'true-color',
+    description: 'Natural color composite (B08, B06, B04)',
+    evalscript: compositeEvalscript(['B08', 'B06', 'B04']),
+  },
+  {
+    label: 'False Color (Infrared)',
+    value: 'false-color',
+    description: 'Vegetation shows up red (B17, B08, B06)',
+    evalscript: compositeEvalscript(['B17', 'B08', 'B06']),
+  },
+];
+
+export const LANDSAT_PRODUCTS: EvalscriptProduct[] = [
+  {
+    label: 'True Color',
+    value: 'true-color',
+    description: 'Natural color composite (B04, B03, B02)',
+    evalscript: compositeEvalscript(['B04', 'B03', 'B02']),
+  },
+  {
+    label: 'False Color (Infrared)',
+    value: 'false-color',
+    description: 'Vegetation shows up red (B05, B04, B03)',
+    evalscript: compositeEvalscript(['B05', 'B04', 'B03']),
+  },
+  {
+    label: 'NDVI',
+    value: 'ndvi',
+    description: 'Normalized Difference Vegetation Index with a brown-to-green ramp',
+    evalscript: ndviEvalscript('B05', 'B04'),
+  },
+];
+
+// Elevations offset by this many meters so they fit UINT16 (lowest land is about -430 m)
+export const DEM_ELEVATION_OFFSET = 1000;
+
+export const DEM_PRODUCTS: EvalscriptProduct[] = [
+  {
+    label: 'Hillshade',
+    value: 'hillshade',
+    description: 'Shaded relief lit from the northwest',
+    // Raw elevations; the shading needs neighbouring pixels, so it is computed server-side
+    evalscript: `//VERSION=3
+function setup() {
+  return {
+    input: ["DEM", "dataMask"],
+    output: { bands: 2, sampleType: "UINT16" }
+  };
+}
+function evaluatePixel(sample) {
+  return [Math.max(0, Math.round(sample.DEM + ${DEM_ELEVATION_OFFSET})), sample.dataMask * 65535];
+}
+`,
+    postprocess: 'hillshade',
+  },
+  {
+    label: 'Elevation',
+    value: 'elevation',
+    description: 'Hypsometric color ramp from sea level to 4000 m',
+    evalscript: `//VERSION=3
+function setup() {
+  return {
+    input: ["DEM", "dataMask"],
+    output: { bands: 4 }
+  };
+}
+const ramp = [
+  [-100, 0x2b83ba],
+  [0, 0x1a9641],
+  [500, 0xa6d96a],
+  [1000, 0xffffbf],
+  [2000, 0xfdae61],
+  [3000, 0xd7191c],
+  [4000, 0xffffff]
+];
+const visualizer = new ColorRampVisualizer(ramp);
+function evaluatePixel(sample) {
+  const [r, g, b] = visualizer.process(sample.DEM);
+  return [r, g, b, sample.dataMask];
+}
+`,
+  },
+];
+
+const MAX_EVALSCRIPT_LENGTH = 16 * 1024;
+export const SENTINEL2_INPUTS = new Set([
+  'B01', 'B02', 'B03', 'B04', 'B05', 'B06', 'B07', 'B08', 'B8A', 'B09', 'B11', 'B12',
+  'AOT', 'SCL', 'SNW', 'CLD', 'CLP', 'CLM', 'WVP', 'dataMask',
+  'sunAzimuthAngles', 'sunZenithAngles', 'viewAzimuthMean', 'viewZenithMean',
+]);
+
+export function listProducts(products: EvalscriptProduct[] = SENTINEL2_PRODUCTS): ProductInfo[] {
+  return products.map(({ label, value, description }) => ({ label, value, description }));
+}
+
+export function getProduct(product: string, products: EvalscriptProduct[] = SENTINEL2_PRODUCTS): EvalscriptProduct {
+  const match = products.find(p => p.value === product);
+  if (!match) {
+    throw new ImageryError(`Unknown product: ${product}`, 400, { products: products.map(p => p.value) });
+  }
+  return match;
+}
+
+// Reject scripts the Process API would refuse anyway, before spending a request on them
+export function validateEvalscript(evalscript: unknown, inputs: Set<string> = SENTINEL2_INPUTS): string {
+  if (typeof evalscript !== 'string' || evalscript.trim() === '') {
+    throw new ImageryError('Missing evalscript', 400);
+  }
+  if (evalscript.length > MAX_EVALSCRIPT_LENGTH) {
+    throw new ImageryError(`Evalscript exceeds ${MAX_EVALSCRIPT_LENGTH} characters`, 400);
+  }
+  if (!evalscript.trimStart().startsWith('//VERSION=3')) {
+    throw new ImageryError('Evalscript must start with //VERSION=3', 400);
+  }
+  if (!/function\s+setup\s*\(/.test(evalscript) || !/function\s+evaluatePixel\s*\(/.test(evalscript)) {
+    throw new ImageryError('Evalscript must define setup() and evaluatePixel()', 400);
+  }
+  // Check the declared input bands (plain array, or the first { bands: [...] } entry)
+  const inputMatch = evalscript.match(/input\s*:\s*\[([^\]]*)\]/);
+  if (inputMatch) {
+    const bands = Array.from(inputMatch[1].matchAll(/["']([A-Za-z0-9]+)["']/g), m => m[1]);
+    const unknown = bands.filter(b => !inputs.has(b));
+    if (unknown.length > 0) {
+      throw new ImageryError(`Unknown input bands in evalscript: ${unknown.join(', ')}`, 400);
+    }
+  }
+  return evalscript;
+}
+
+// Per-pixel inputs for change detection: NDVI and brightness packed into bytes, dataMask as alpha
+export const CHANGE_DETECTION_EVALSCRIPT = `//VERSION=3
+function setup() {
+  return {
+    input: ["B02", "B03", "B04", "B08", "dataMask"],
+    output: { bands: 4, sampleType: "UINT8" }
+  };
+}
+function evaluatePixel(sample) {
+  const ndvi = (sample.B08 - sample.B04) / (sample.B08 + sample.B04);
+  const brightness = Math.min(2.5 * (sample.B02 + sample.B03 + sample.B04) / 3, 1);
+  return [
+    Math.round((isFinite(ndvi) ? ndvi + 1 : 1) * 127.5),
+    Math.round(brightness * 255),
+    0,
+    sample.dataMask * 255
+  ];
+}
+`;
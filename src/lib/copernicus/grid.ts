@@ -0,0 +1,53 @@
+import { ImageryError } from '@/lib/imagery/errors';
+import type { ImageryQuery } from '@/lib/imagery/types';
+import { BBox, bboxFromCenterDegrees, bboxFromCenterMeters, bboxOfPolygon, bboxSizeMeters, crossesAntimeridian, outputSizeForBBox } from '@/lib/geo';
+
+// Process API limits for a single request
+export const MAX_OUTPUT_PIXELS = 2500;
+export const MAX_METERS_PER_PIXEL = 1500;
+
+export interface OutputGrid {
+  bbox: BBox;
+  width: number;
+  height: number;
+  metersPerPixel: number;
+}
+
+// Ground footprint of the query: drawn AOI, km extent, resolution x metersPerPixel, or the legacy `dim` degrees
+export function resolveBBox(query: ImageryQuery): BBox {
+  if (query.aoi) {
+    return bboxOfPolygon(query.aoi);
+  }
+  if (query.extentKm) {
+    const meters = query.extentKm * 1000;
+    return bboxFromCenterMeters(query.lat, query.lon, meters, meters);
+  }
+  if (query.metersPerPixel) {
+    const meters = query.resolution * query.metersPerPixel;
+    return bboxFromCenterMeters(query.lat, query.lon, meters, meters);
+  }
+  return bboxFromCenterDegrees(query.lat, query.lon, query.dim);
+}
+
+// Bbox plus output pixel size with the ground aspect ratio preserved,
+// rejecting requests the Process API would refuse
+export function resolveOutputGrid(query: ImageryQuery): OutputGrid {
+  const bbox = resolveBBox(query);
+  // GIBS stitches across ±180°; a single Process API bbox cannot
+  if (crossesAntimeridian(bbox)) {
+    throw new ImageryError('Requested area crosses the antimeridian (±180° longitude); move the center or use a smaller extent', 400, { bbox });
+  }
+  const ground = bboxSizeMeters(bbox);
+  const size = query.metersPerPixel
+    ? { width: Math.max(1, Math.round(ground.width / query.metersPerPixel)), height: Math.max(1, Math.round(ground.height / query.metersPerPixel)) }
+    : outputSizeForBBox(bbox, query.resolution);
+  const metersPerPixel = Math.max(ground.width / size.width, ground.height / size.height);
+
+  if (size.width > MAX_OUTPUT_PIXELS || size.height > MAX_OUTPUT_PIXELS) {
+    throw new ImageryError(`Requested output ${size.width}x${size.height}px exceeds the ${MAX_OUTPUT_PIXELS}px limit; use a smaller extent or a coarser metersPerPixel`, 400, { width: size.width, height: size.height, maxPixels: MAX_OUTPUT_PIXELS });
+  }
+  if (metersPerPixel > MAX_METERS_PER_PIXEL) {
+    throw new ImageryError(`Requested resolution of ${Math.round(metersPerPixel)} m/px exceeds the ${MAX_METERS_PER_PIXEL} m/px limit; use a smaller extent or a larger output size`, 400, { metersPerPixel: Math.round(metersPerPixel), maxMetersPerPixel: MAX_METERS_PER_PIXEL });
+  }
+  return { bbox, ...size, metersPerPixel };
+}
@@ -0,0 +1,42 @@
+import sharp from 'sharp';
+import { DEM_ELEVATION_OFFSET } from './evalscripts';
+
+// Sun position for the shading (degrees): northwest, 45° above the horizon
+const AZIMUTH = 315;
+const ALTITUDE = 45;
+
+// Shade a 16-bit elevation + mask PNG from the DEM evalscript (Horn's method).
+// cellWidth/cellHeight are the ground size of one pixel in meters.
+export async function renderHillshade(png: Buffer, cellWidth: number, cellHeight: number): Promise<Buffer> {
+  // grey16 keeps the 16-bit samples; sharp would otherwise convert to 8-bit sRGB
+  const { data, info } = await sharp(png).toColourspace('grey16').raw({ depth: 'ushort' }).toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+  const samples = new Uint16Array(data.buffer, data.byteOffset, data.length / 2);
+  const elevation = (x: number, y: number) => {
+    const cx = Math.min(Math.max(x, 0), width - 1);
+    const cy = Math.min(Math.max(y, 0), height - 1);
+    return samples[(cy * width + cx) * channels] - DEM_ELEVATION_OFFSET;
+  };
+
+  const zenith = (90 - ALTITUDE) * Math.PI / 180;
+  const azimuth = (360 - AZIMUTH + 90) % 360 * Math.PI / 180;
+  const out = Buffer.alloc(width * height * 2);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const valid = channels < 2 || samples[i * channels + 1] > 0;
+      if (!valid) continue;
+      const [a, b, c] = [elevation(x - 1, y - 1), elevation(x, y - 1), elevation(x + 1, y - 1)];
+      const [d, f] = [elevation(x - 1, y), elevation(x + 1, y)];
+      const [g, h, k] = [elevation(x - 1, y + 1), elevation(x, y + 1), elevation(x + 1, y + 1)];
+      const dzdx = ((c + 2 * f + k) - (a + 2 * d + g)) / (8 * cellWidth);
+      const dzdy = ((g + 2 * h + k) - (a + 2 * b + c)) / (8 * cellHeight);
+      const slope = Math.atan(Math.hypot(dzdx, dzdy));
+      const aspect = Math.atan2(dzdy, -dzdx);
+      const shade = Math.cos(zenith) * Math.cos(slope) + Math.sin(zenith) * Math.sin(slope) * Math.cos(azimuth - aspect);
+      out[i * 2] = Math.round(Math.max(shade, 0) * 255);
+      out[i * 2 + 1] = 255;
+    }
+  }
+  return sharp(out, { raw: { width, height, channels: 2 } }).png().toBuffer();
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { indexStatisticsToCsv, IndexStatisticsResult } from './statistics';
+
+describe('indexStatisticsToCsv', () => {
+  it('writes one row per interval and quotes cells that contain separators', () => {
+    const result: IndexStatisticsResult = {
+      collection: 'sentinel-2-l2a',
+      index: 'custom',
+      interval: 'weekly',
+      from: '2024-01-01',
+      to: '2024-01-14',
+      bbox: [0, 0, 1, 1],
+      width: 10,
+      height: 10,
+      cloudsMasked: true,
+      percentiles: [50],
+      intervals: [
+        { from: '2024-01-01', to: '2024-01-08', output: 'index', band: 'B0', validPixels: 90, noDataPixels: 10, mean: 0.5, min: 0, max: 1, stDev: 0.1, percentiles: { 50: 0.5 } },
+        { from: '2024-01-08', to: '2024-01-14', output: 'say "hi", ok', band: 'B0\nB1', validPixels: 0, noDataPixels: 100, mean: null, min: null, max: null, stDev: null, percentiles: { 50: null } },
+      ],
+    };
+    expect(indexStatisticsToCsv(result).split('\n')).toEqual([
+      'from,to,output,band,validPixels,noDataPixels,mean,min,max,stDev,p50',
+      '2024-01-01,2024-01-08,index,B0,90,10,0.5,0,1,0.1,0.5',
+      '2024-01-08,2024-01-14,"say ""hi"", ok","B0',
+      'B1",0,100,,,,,',
+      '',
+    ]);
+  });
+});
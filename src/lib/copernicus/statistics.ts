@@ -0,0 +1,267 @@
+import { appendLog, logError } from '@/lib/logger';
+import { withJsonCache } from '@/lib/cache';
+import { ImageryError } from '@/lib/imagery/errors';
+import { BBox, PolygonGeometry, bboxSizeMeters, outputSizeForBBox } from '@/lib/geo';
+import type { ImageryQuery } from '@/lib/imagery/types';
+import { CollectionSpec, getCollection } from './collections';
+import { CLOUDY_SCL_CLASSES, validateEvalscript } from './evalscripts';
+import { resolveOutputGrid } from './grid';
+import { getCopernicusTokenManager } from './token';
+
+// Overridable so the provider can run against local stub servers
+const SH_BASE_URL = process.env.COPERNICUS_SH_URL || 'https://sh.dataspace.copernicus.eu';
+const STATISTICS_URL = `${SH_BASE_URL}/api/v1/statistics`;
+
+// Scene classification is produced at 20 m; coarser sampling is plenty for a cloud fraction
+const SCL_METERS = 20;
+const MAX_CLOUD_SAMPLE_PIXELS = 256;
+
+// Aggregation intervals as ISO 8601 durations
+export const STATISTICS_INTERVALS = { daily: 'P1D', weekly: 'P7D', monthly: 'P1M' } as const;
+export type StatisticsInterval = keyof typeof STATISTICS_INTERVALS;
+export const DEFAULT_PERCENTILES = [10, 25, 50, 75, 90];
+export const CUSTOM_INDEX = 'custom';
+
+export interface IndexStatisticsOptions {
+  // Name from the collection's indices, or 'custom' with `evalscript`
+  index: string;
+  evalscript?: string;
+  interval: StatisticsInterval;
+  percentiles: number[];
+  // Exclude SCL cloud, shadow and cirrus pixels (collections with a cloud mask)
+  maskClouds: boolean;
+}
+
+// Statistics of one output band over one interval
+export interface IntervalStatistics {
+  from: string;
+  to: string;
+  output: string;
+  band: string;
+  validPixels: number;
+  noDataPixels: number;
+  // null when the interval has no valid pixels
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+  stDev: number | null;
+  percentiles: Record<string, number | null>;
+}
+
+export interface IndexStatisticsResult {
+  collection: string;
+  index: string;
+  interval: StatisticsInterval;
+  from: string;
+  to: string;
+  bbox: BBox;
+  width: number;
+  height: number;
+  cloudsMasked: boolean;
+  percentiles: number[];
+  intervals: IntervalStatistics[];
+}
+
+const CLOUD_EVALSCRIPT = `//VERSION=3
+function setup() {
+  return {
+    input: [{ bands: ["SCL", "dataMask"] }],
+    output: [
+      { id: "cloud", bands: 1, sampleType: "FLOAT32" },
+      { id: "dataMask", bands: 1 }
+    ]
+  };
+}
+const CLOUDY = ${JSON.stringify(CLOUDY_SCL_CLASSES)};
+function evaluatePixel(sample) {
+  return { cloud: [CLOUDY.indexOf(sample.SCL) >= 0 ? 1 : 0], dataMask: [sample.dataMask] };
+}
+`;
+
+// Send a Statistical API request and return its per-interval results
+export async function runStatisticsRequest(body: any): Promise<any[]> {
+  await appendLog('Sending request to Copernicus Statistical API');
+  const res = await getCopernicusTokenManager().authorizedFetch(STATISTICS_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const errorText = await res.text();
+    await logError(`Copernicus Statistical API Error: ${res.status} - ${errorText}`);
+    throw new ImageryError('Failed to fetch Copernicus statistics', res.status, { details: errorText });
+  }
+  const json = await res.json();
+  return json.data || [];
+}
+
+// Cloudy share (0-100) of the AOI's valid pixels per acquisition day (YYYY-MM-DD),
+// from the SCL band rather than the catalog's tile-wide eo:cloud_cover
+export async function aoiCloudCover(collection: CollectionSpec, bbox: BBox, aoi: PolygonGeometry | undefined, from: string, to: string): Promise<Record<string, number>> {
+  if (!collection.cloudMask) {
+    throw new ImageryError(`Invalid parameter: ${collection.label} has no per-pixel cloud mask for local cloud cover`, 400);
+  }
+  const ground = bboxSizeMeters(bbox);
+  const longSide = Math.max(1, Math.min(MAX_CLOUD_SAMPLE_PIXELS, Math.ceil(Math.max(ground.width, ground.height) / SCL_METERS)));
+  const { width, height } = outputSizeForBBox(bbox, longSide);
+  const body = {
+    input: {
+      bounds: {
+        ...(aoi ? { geometry: aoi } : { bbox }),
+        properties: { crs: 'http://www.opengis.net/def/crs/OGC/1.3/CRS84' },
+      },
+      data: [{ type: collection.processType, ...(collection.dataFilter ? { dataFilter: collection.dataFilter } : {}) }],
+    },
+    aggregation: {
+      timeRange: { from, to },
+      aggregationInterval: { of: 'P1D' },
+      width,
+      height,
+      evalscript: CLOUD_EVALSCRIPT,
+    },
+  };
+
+  return withJsonCache('copernicus:statistics', body, async () => {
+    const intervals = await runStatisticsRequest(body);
+    const byDay: Record<string, number> = {};
+    for (const interval of intervals) {
+      const stats = interval.outputs?.cloud?.bands?.B0?.stats;
+      // Days whose acquisitions miss the AOI have no valid samples
+      if (!stats || typeof stats.mean !== 'number' || stats.sampleCount === stats.noDataCount) continue;
+      byDay[interval.interval.from.slice(0, 10)] = stats.mean * 100;
+    }
+    await appendLog(`Copernicus AOI Cloud Cover: collection=${collection.id}, days=${Object.keys(byDay).length}, size=${width}x${height}`);
+    return byDay;
+  });
+}
+
+function indexEvalscript([a, b]: [string, string], maskClouds: boolean) {
+  const bands = [a, b, ...(maskClouds ? ['SCL'] : []), 'dataMask'];
+  return `//VERSION=3
+function setup() {
+  return {
+    input: [{ bands: ${JSON.stringify(bands)} }],
+    output: [
+      { id: "index", bands: 1, sampleType: "FLOAT32" },
+      { id: "dataMask", bands: 1 }
+    ]
+  };
+}
+const CLOUDY = ${JSON.stringify(maskClouds ? CLOUDY_SCL_CLASSES : [])};
+function evaluatePixel(sample) {
+  const value = index(sample.${a}, sample.${b});
+  const clear = CLOUDY.indexOf(sample.SCL) < 0;
+  return { index: [value], dataMask: [sample.dataMask === 1 && clear && isFinite(value) ? 1 : 0] };
+}
+`;
+}
+
+const statOrNull = (value: unknown) => (typeof value === 'number' && isFinite(value) ? value : null);
+
+// Index statistics per interval over the query's AOI and from/to window
+export async function fetchIndexStatistics(query: ImageryQuery, options: IndexStatisticsOptions): Promise<IndexStatisticsResult> {
+  const collection = getCollection(query.collection);
+  if (!collection.catalogId) {
+    throw new ImageryError(`Invalid parameter: ${collection.label} has no acquisitions to aggregate`, 400);
+  }
+  if (!query.from || !query.to) throw new ImageryError('Missing required parameters: from and to', 400);
+  const maskClouds = options.maskClouds && !!collection.cloudMask;
+  let evalscript: string;
+  if (options.index === CUSTOM_INDEX) {
+    evalscript = validateEvalscript(options.evalscript, collection.inputs);
+  } else {
+    const bands = collection.indices?.[options.index];
+    if (!bands) {
+      throw new ImageryError(`Unknown index for ${collection.label}: ${options.index}`, 400, { indices: Object.keys(collection.indices || {}) });
+    }
+    evalscript = indexEvalscript(bands, maskClouds);
+  }
+
+  const { bbox, width, height } = resolveOutputGrid(query);
+  const from = query.from.length === 10 ? `${query.from}T00:00:00Z` : query.from;
+  const to = query.to.length === 10 ? `${query.to}T23:59:59Z` : query.to;
+  const body = {
+    input: {
+      bounds: {
+        ...(query.aoi ? { geometry: query.aoi } : { bbox }),
+        properties: { crs: 'http://www.opengis.net/def/crs/OGC/1.3/CRS84' },
+      },
+      data: [{
+        type: collection.processType,
+        dataFilter: {
+          ...collection.dataFilter,
+          ...(collection.cloudCover && query.maxCloudCover !== undefined ? { maxCloudCoverage: query.maxCloudCover } : {}),
+        },
+        ...(collection.processing ? { processing: collection.processing } : {}),
+      }],
+    },
+    aggregation: {
+      timeRange: { from, to },
+      aggregationInterval: { of: STATISTICS_INTERVALS[options.interval] },
+      width,
+      height,
+      evalscript,
+    },
+    calculations: {
+      default: { statistics: { default: { percentiles: { k: options.percentiles } } } },
+    },
+  };
+  await appendLog(`Copernicus Index Statistics: collection=${collection.id}, index=${options.index}, interval=${options.interval}, from=${from}, to=${to}, size=${width}x${height}, maskClouds=${maskClouds}`);
+
+  const intervals = await withJsonCache('copernicus:index-statistics', body, async () => {
+    const data = await runStatisticsRequest(body);
+    const rows: IntervalStatistics[] = [];
+    for (const interval of data) {
+      for (const [output, result] of Object.entries<any>(interval.outputs || {})) {
+        for (const [band, { stats }] of Object.entries<any>(result.bands || {})) {
+          const sampleCount = stats?.sampleCount ?? 0;
+          const noDataCount = stats?.noDataCount ?? 0;
+          const valid = sampleCount > noDataCount ? stats : undefined;
+          rows.push({
+            from: interval.interval.from,
+            to: interval.interval.to,
+            output,
+            band,
+            validPixels: sampleCount - noDataCount,
+            noDataPixels: noDataCount,
+            mean: statOrNull(valid?.mean),
+            min: statOrNull(valid?.min),
+            max: statOrNull(valid?.max),
+            stDev: statOrNull(valid?.stDev),
+            percentiles: Object.fromEntries(options.percentiles.map(p => [String(p), statOrNull(valid?.percentiles?.[p.toFixed(1)])])),
+          });
+        }
+      }
+    }
+    return rows;
+  });
+
+  return {
+    collection: collection.id,
+    index: options.index,
+    interval: options.interval,
+    from,
+    to,
+    bbox,
+    width,
+    height,
+    cloudsMasked: maskClouds,
+    percentiles: options.percentiles,
+    intervals,
+  };
+}
+
+// One row per interval, output and band
+export function indexStatisticsToCsv(result: IndexStatisticsResult) {
+  const header = ['from', 'to', 'output', 'band', 'validPixels', 'noDataPixels', 'mean', 'min', 'max', 'stDev', ...result.percentiles.map(p => `p${p}`)];
+  // Quote cells that would otherwise split the row (custom evalscript output and band names)
+  const cell = (value: string | number | null) => {
+    const text = value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = result.intervals.map(row => [
+    row.from, row.to, row.output, row.band, row.validPixels, row.noDataPixels, row.mean, row.min, row.max, row.stDev,
+    ...result.percentiles.map(p => row.percentiles[String(p)]),
+  ].map(cell).join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
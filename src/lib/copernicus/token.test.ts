@@ -0,0 +1,97 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createTokenManager } from './token';
+
+// Stub identity server: /token issues t1, t2, ... after a short delay; /data accepts
+// any bearer token except the revoked ones
+let server: http.Server;
+let baseUrl: string;
+let issued = 0;
+let tokenRequests = 0;
+let dataRequests = 0;
+let revoked = new Set<string>();
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    if (req.url === '/token') {
+      tokenRequests++;
+      const token = `t${++issued}`;
+      setTimeout(() => {
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({ access_token: token, expires_in: 120 }));
+      }, 20);
+      return;
+    }
+    dataRequests++;
+    const token = (req.headers.authorization || '').replace('Bearer ', '');
+    res.statusCode = revoked.has(token) ? 401 : 200;
+    res.end(token);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  issued = 0;
+  tokenRequests = 0;
+  dataRequests = 0;
+  revoked = new Set();
+});
+
+function manager(clock = { now: 0 }) {
+  return createTokenManager({ clientId: 'id', clientSecret: 'secret', authUrl: `${baseUrl}/token`, now: () => clock.now });
+}
+
+describe('createTokenManager', () => {
+  it('reuses the token until shortly before it expires', async () => {
+    const clock = { now: 0 };
+    const tokens = manager(clock);
+    expect(await tokens.getToken()).toBe('t1');
+    clock.now = 59_000;
+    expect(await tokens.getToken()).toBe('t1');
+    // expires_in 120s minus the 60s margin
+    clock.now = 61_000;
+    expect(await tokens.getToken()).toBe('t2');
+    expect(tokenRequests).toBe(2);
+  });
+
+  it('shares one refresh between concurrent callers', async () => {
+    const tokens = manager();
+    const results = await Promise.all(Array.from({ length: 5 }, () => tokens.getToken()));
+    expect(results).toEqual(['t1', 't1', 't1', 't1', 't1']);
+    expect(tokenRequests).toBe(1);
+  });
+
+  it('refreshes and retries once on 401', async () => {
+    const tokens = manager();
+    await tokens.getToken();
+    revoked.add('t1');
+    const res = await tokens.authorizedFetch(`${baseUrl}/data`);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('t2');
+    expect(tokenRequests).toBe(2);
+    expect(dataRequests).toBe(2);
+  });
+
+  it('gives up after the single retry', async () => {
+    const tokens = manager();
+    await tokens.getToken();
+    revoked = new Set(['t1', 't2', 't3']);
+    const res = await tokens.authorizedFetch(`${baseUrl}/data`);
+    expect(res.status).toBe(401);
+    expect(tokenRequests).toBe(2);
+    expect(dataRequests).toBe(2);
+  });
+
+  it('refreshes once when concurrent calls all get 401', async () => {
+    const tokens = manager();
+    await tokens.getToken();
+    revoked.add('t1');
+    const results = await Promise.all(Array.from({ length: 3 }, () => tokens.authorizedFetch(`${baseUrl}/data`)));
+    expect(results.map(res => res.status)).toEqual([200, 200, 200]);
+    expect(tokenRequests).toBe(2);
+  });
+});
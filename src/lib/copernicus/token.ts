@@ -0,0 +1,109 @@
+import { appendLog, logError } from '@/lib/logger';
+import { ImageryError } from '@/lib/imagery/errors';
+import { upstreamFetch } from '@/lib/upstream';
+
+const DEFAULT_AUTH_URL = 'https://identity.dataspace.copernicus.eu/auth/realms/CDSE/protocol/openid-connect/token';
+
+export interface TokenManagerOptions {
+  clientId: string;
+  clientSecret: string;
+  // Override to point at a local stub identity server
+  authUrl?: string;
+  // Refresh this many seconds before the token actually expires
+  refreshMarginSeconds?: number;
+  now?: () => number;
+}
+
+export interface TokenManager {
+  getToken(forceRefresh?: boolean): Promise<string>;
+  invalidate(): void;
+  // fetch() with a bearer token; on 401 the token is refreshed and the call retried once
+  authorizedFetch(url: string, init?: RequestInit): Promise<Response>;
+}
+
+// Caches the client-credentials token until shortly before expires_in and
+// shares a single in-flight refresh between concurrent callers
+export function createTokenManager(options: TokenManagerOptions): TokenManager {
+  const authUrl = options.authUrl || DEFAULT_AUTH_URL;
+  const marginMs = (options.refreshMarginSeconds ?? 60) * 1000;
+  const now = options.now || Date.now;
+  let accessToken: string | null = null;
+  let expiresAt = 0;
+  let pending: Promise<string> | null = null;
+
+  async function requestToken(): Promise<string> {
+    const authResponse = await upstreamFetch('copernicus', authUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: options.clientId,
+        client_secret: options.clientSecret,
+      }).toString(),
+    });
+    if (!authResponse.ok) {
+      const errorText = await authResponse.text();
+      await logError(`Copernicus Auth Error: ${authResponse.status} - ${errorText}`);
+      throw new ImageryError(`Failed to authenticate with Copernicus API: ${authResponse.statusText}`, authResponse.status);
+    }
+    const authData = await authResponse.json();
+    const expiresIn = Number(authData.expires_in) || 300;
+    accessToken = authData.access_token;
+    // Never let the margin push expiry into the past for short-lived tokens
+    expiresAt = now() + Math.max(expiresIn * 1000 - marginMs, expiresIn * 500);
+    await appendLog(`Copernicus Access Token Obtained (expires_in=${expiresIn}s)`);
+    return authData.access_token;
+  }
+
+  async function getToken(forceRefresh = false) {
+    if (!forceRefresh && accessToken && now() < expiresAt) return accessToken;
+    if (!pending) {
+      pending = requestToken().finally(() => {
+        pending = null;
+      });
+    }
+    return pending;
+  }
+
+  function invalidate() {
+    accessToken = null;
+    expiresAt = 0;
+  }
+
+  async function authorizedFetch(url: string, init: RequestInit = {}) {
+    const send = (token: string) => {
+      const headers = new Headers(init.headers);
+      headers.set('Authorization', `Bearer ${token}`);
+      return upstreamFetch('copernicus', url, { ...init, headers });
+    };
+    const token = await getToken();
+    const res = await send(token);
+    if (res.status !== 401) return res;
+    await appendLog(`Copernicus 401 from ${url}, refreshing token and retrying once`);
+    // Another caller may already have refreshed; only force a refresh if the token is unchanged
+    if (accessToken === token) invalidate();
+    return send(await getToken());
+  }
+
+  return { getToken, invalidate, authorizedFetch };
+}
+
+// Each route bundle gets its own copy of this module; keep one manager per process
+const shared: { manager: TokenManager | null } = (globalThis as any).__copernicusToken ||= { manager: null };
+
+// Process-wide token manager built from COPERNICUS_* environment variables
+export function getCopernicusTokenManager(): TokenManager {
+  const clientId = process.env.COPERNICUS_CLIENT_ID;
+  const clientSecret = process.env.COPERNICUS_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new ImageryError('Copernicus API credentials not configured in environment variables', 500);
+  }
+  if (!shared.manager) {
+    shared.manager = createTokenManager({
+      clientId,
+      clientSecret,
+      authUrl: process.env.COPERNICUS_AUTH_URL,
+    });
+  }
+  return shared.manager;
+}
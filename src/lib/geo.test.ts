@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { bboxFromCenterMeters, bboxSizeMeters, crossesAntimeridian, wrapLongitude } from './geo';
+import { resolveBBox, resolveOutputGrid } from './copernicus/grid';
+import { ImageryError } from './imagery/errors';
+import type { ImageryQuery } from './imagery/types';
+
+describe('bboxFromCenterMeters', () => {
+  it('spans the requested ground distance', () => {
+    const size = bboxSizeMeters(bboxFromCenterMeters(45, 10, 20_000, 10_000));
+    expect(size.width).toBeCloseTo(20_000, -2);
+    expect(size.height).toBeCloseTo(10_000, -2);
+  });
+
+  it('wraps across the antimeridian instead of clamping', () => {
+    const bbox = bboxFromCenterMeters(0, 179.95, 20_000, 20_000);
+    const width = 20_000 / 111_320;
+    expect(bbox[0]).toBeCloseTo(179.95 - width / 2, 6);
+    expect(bbox[2]).toBeCloseTo(-180 + (width / 2 - 0.05), 6);
+    expect(crossesAntimeridian(bbox)).toBe(true);
+    expect(crossesAntimeridian(bboxFromCenterMeters(0, 179, 20_000, 20_000))).toBe(false);
+  });
+
+  it('wraps the center longitude', () => {
+    expect(wrapLongitude(190)).toBe(-170);
+    expect(wrapLongitude(-190)).toBe(170);
+    expect(wrapLongitude(180)).toBe(180);
+    const [minLon, , maxLon] = bboxFromCenterMeters(0, 370, 1_000, 1_000);
+    expect((minLon + maxLon) / 2).toBeCloseTo(10, 6);
+  });
+
+  it('covers the whole globe when wider than it', () => {
+    expect(bboxFromCenterMeters(89.99, 30, 100_000, 1_000)).toEqual([-180, expect.any(Number), 180, expect.any(Number)]);
+  });
+});
+
+describe('resolveOutputGrid', () => {
+  const query = { lat: 0, lon: 179.95, extentKm: 20, resolution: 1024, dim: 0.2 } as ImageryQuery;
+  const rectangle = (minLon: number, minLat: number, maxLon: number, maxLat: number) =>
+    ({ type: 'Polygon' as const, coordinates: [[[minLon, minLat], [maxLon, minLat], [maxLon, maxLat], [minLon, maxLat], [minLon, minLat]] as [number, number][]] });
+
+  it('keeps the ground aspect ratio of the area', () => {
+    // 2° x 1° is twice as wide as tall at the equator and about square at 60°N
+    for (const aoi of [rectangle(10, 0, 12, 1), rectangle(10, 60, 12, 61)]) {
+      const grid = resolveOutputGrid({ ...query, aoi });
+      const ground = bboxSizeMeters(grid.bbox);
+      expect(Math.max(grid.width, grid.height)).toBe(1024);
+      expect(grid.width / grid.height).toBeCloseTo(ground.width / ground.height, 2);
+    }
+    const equator = resolveOutputGrid({ ...query, aoi: rectangle(10, 0, 12, 1) });
+    expect(equator.height).toBeCloseTo(512, -1);
+  });
+
+  it('rejects outputs larger than 2500 px with a 400', () => {
+    expect(resolveOutputGrid({ ...query, lon: 10, extentKm: 25, metersPerPixel: 10 }).width).toBe(2500);
+    expect(() => resolveOutputGrid({ ...query, lon: 10, extentKm: 30, metersPerPixel: 10 }))
+      .toThrow(expect.objectContaining({ status: 400, message: expect.stringContaining('2500px limit') }));
+  });
+
+  it('rejects coarser than 1500 m/px with a 400', () => {
+    expect(resolveOutputGrid({ ...query, lon: 10, extentKm: 1500 }).metersPerPixel).toBeLessThan(1500);
+    expect(() => resolveOutputGrid({ ...query, lon: 10, extentKm: 2000 }))
+      .toThrow(expect.objectContaining({ status: 400, message: expect.stringContaining('1500 m/px limit') }));
+  });
+
+  it('keeps the antimeridian-crossing box for GIBS', () => {
+    expect(crossesAntimeridian(resolveBBox(query))).toBe(true);
+  });
+
+  it('rejects it for the Process API with a 400', () => {
+    expect(() => resolveOutputGrid(query)).toThrow(ImageryError);
+    expect(() => resolveOutputGrid(query)).toThrow(expect.objectContaining({ status: 400, message: expect.stringContaining('antimeridian') }));
+  });
+});
@@ -0,0 +1,125 @@
+// [minLon, minLat, maxLon, maxLat] in WGS84 degrees
+export type BBox = [number, number, number, number];
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+
+// Length of one degree of latitude/longitude on the WGS84 ellipsoid at `lat`
+export function metersPerDegree(lat: number) {
+  const phi = toRad(lat);
+  return {
+    lat: 111132.92 - 559.82 * Math.cos(2 * phi) + 1.175 * Math.cos(4 * phi) - 0.0023 * Math.cos(6 * phi),
+    lon: 111412.84 * Math.cos(phi) - 93.5 * Math.cos(3 * phi) + 0.118 * Math.cos(5 * phi),
+  };
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), max);
+}
+
+// Longitude folded into [-180, 180]
+export function wrapLongitude(lon: number) {
+  return lon >= -180 && lon <= 180 ? lon : ((lon + 180) % 360 + 360) % 360 - 180;
+}
+
+// Box of widthMeters x heightMeters on the ground centered on lat/lon. Longitudes wrap, so
+// a box over the antimeridian comes back with minLon > maxLon (see crossesAntimeridian).
+export function bboxFromCenterMeters(lat: number, lon: number, widthMeters: number, heightMeters: number): BBox {
+  const perDegree = metersPerDegree(lat);
+  const halfLat = heightMeters / 2 / perDegree.lat;
+  // Near the poles a degree of longitude shrinks to nothing; never span more than the globe
+  const halfLon = widthMeters / 2 / Math.max(perDegree.lon, 1e-6);
+  const minLat = clamp(lat - halfLat, -90, 90);
+  const maxLat = clamp(lat + halfLat, -90, 90);
+  if (halfLon >= 180) return [-180, minLat, 180, maxLat];
+  const center = wrapLongitude(lon);
+  return [wrapLongitude(center - halfLon), minLat, wrapLongitude(center + halfLon), maxLat];
+}
+
+export function crossesAntimeridian([minLon, , maxLon]: BBox) {
+  return minLon > maxLon;
+}
+
+const EARTH_RADIUS = 6378137;
+
+// Web Mercator (EPSG:3857) box in meters to WGS84 degrees
+export function mercatorToLonLatBBox([minX, minY, maxX, maxY]: BBox): BBox {
+  const lon = (x: number) => x / EARTH_RADIUS * 180 / Math.PI;
+  const lat = (y: number) => (2 * Math.atan(Math.exp(y / EARTH_RADIUS)) - Math.PI / 2) * 180 / Math.PI;
+  return [lon(minX), lat(minY), lon(maxX), lat(maxY)];
+}
+
+// Legacy square-in-degrees box used by the `dim` parameter
+export function bboxFromCenterDegrees(lat: number, lon: number, dim: number): BBox {
+  const halfDim = dim / 2;
+  return [lon - halfDim, lat - halfDim, lon + halfDim, lat + halfDim];
+}
+
+// Ground size of a bbox, measured across its middle latitude
+export function bboxSizeMeters([minLon, minLat, maxLon, maxLat]: BBox) {
+  const perDegree = metersPerDegree((minLat + maxLat) / 2);
+  return {
+    width: (maxLon - minLon) * perDegree.lon,
+    height: (maxLat - minLat) * perDegree.lat,
+  };
+}
+
+// Pixel size whose longer side is `longSide`, keeping the bbox's ground aspect ratio
+export function outputSizeForBBox(bbox: BBox, longSide: number) {
+  const { width, height } = bboxSizeMeters(bbox);
+  if (width >= height) {
+    return { width: longSide, height: Math.max(1, Math.round(longSide * height / width)) };
+  }
+  return { width: Math.max(1, Math.round(longSide * width / height)), height: longSide };
+}
+
+// GeoJSON [lon, lat] position and the polygon AOIs drawn in the explorer
+export type Position = [number, number];
+
+export interface PolygonGeometry {
+  type: 'Polygon';
+  coordinates: Position[][];
+}
+
+export const MAX_AOI_VERTICES = 500;
+
+// Problem with a GeoJSON polygon AOI, or null when it is usable
+export function polygonError(geometry: any): string | null {
+  if (!geometry || geometry.type !== 'Polygon' || !Array.isArray(geometry.coordinates) || geometry.coordinates.length === 0) {
+    return 'AOI must be a GeoJSON Polygon';
+  }
+  let vertices = 0;
+  for (const ring of geometry.coordinates) {
+    if (!Array.isArray(ring) || ring.length < 4) return 'AOI rings need at least 4 positions';
+    for (const pos of ring) {
+      if (!Array.isArray(pos) || typeof pos[0] !== 'number' || typeof pos[1] !== 'number'
+        || Math.abs(pos[0]) > 180 || Math.abs(pos[1]) > 90) {
+        return 'AOI positions must be [lon, lat] within WGS84 bounds';
+      }
+    }
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    if (first[0] !== last[0] || first[1] !== last[1]) return 'AOI rings must be closed';
+    vertices += ring.length;
+  }
+  if (vertices > MAX_AOI_VERTICES) return `AOI exceeds ${MAX_AOI_VERTICES} vertices`;
+  return null;
+}
+
+export function bboxOfPolygon(geometry: PolygonGeometry): BBox {
+  const outer = geometry.coordinates[0];
+  const lons = outer.map(p => p[0]);
+  const lats = outer.map(p => p[1]);
+  return [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)];
+}
+
+export function bboxCenter([minLon, minLat, maxLon, maxLat]: BBox) {
+  return { lat: (minLat + maxLat) / 2, lon: (minLon + maxLon) / 2 };
+}
+
+// Closed polygon ring for a bbox, e.g. to send a drawn rectangle as GeoJSON
+export function bboxToPolygon([minLon, minLat, maxLon, maxLat]: BBox): PolygonGeometry {
+  return {
+    type: 'Polygon',
+    coordinates: [[[minLon, minLat], [maxLon, minLat], [maxLon, maxLat], [minLon, maxLat], [minLon, minLat]]],
+  };
+}
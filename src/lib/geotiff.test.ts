@@ -0,0 +1,54 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { encodeGeoTiff, toGeoTiff } from './geotiff';
+
+// Tag values from the first IFD, read back by hand (sharp does not expose GeoTIFF tags)
+function readTags(tiff: Buffer) {
+  expect(tiff.toString('ascii', 0, 2)).toBe('II');
+  expect(tiff.readUInt16LE(2)).toBe(42);
+  const ifd = tiff.readUInt32LE(4);
+  const tags = new Map<number, number[]>();
+  for (let i = 0; i < tiff.readUInt16LE(ifd); i++) {
+    const entry = ifd + 2 + i * 12;
+    const type = tiff.readUInt16LE(entry + 2);
+    const count = tiff.readUInt32LE(entry + 4);
+    const size = type === 3 ? 2 : type === 4 ? 4 : 8;
+    const at = size * count <= 4 ? entry + 8 : tiff.readUInt32LE(entry + 8);
+    tags.set(tiff.readUInt16LE(entry), Array.from({ length: count }, (_, j) =>
+      type === 3 ? tiff.readUInt16LE(at + j * 2) : type === 4 ? tiff.readUInt32LE(at + j * 4) : tiff.readDoubleLE(at + j * 8)));
+  }
+  return tags;
+}
+
+describe('encodeGeoTiff', () => {
+  // 3x2 RGB, odd byte count so the IFD needs its padding byte
+  const pixels = Buffer.from([
+    255, 0, 0, 0, 255, 0, 0, 0, 255,
+    10, 20, 30, 40, 50, 60, 70, 80, 91,
+  ]);
+
+  it('writes pixels any TIFF reader can decode', async () => {
+    const tiff = encodeGeoTiff(pixels, 3, 2, 3, { bbox: [20, 37, 26, 41], crs: 'EPSG:4326' });
+    const { data, info } = await sharp(tiff).raw().toBuffer({ resolveWithObject: true });
+    expect([info.width, info.height, info.channels]).toEqual([3, 2, 3]);
+    expect(data.equals(pixels)).toBe(true);
+  });
+
+  it('places the image with pixel scale, tie point and geokeys', () => {
+    const tags = readTags(encodeGeoTiff(pixels, 3, 2, 3, { bbox: [20, 37, 26, 41], crs: 'EPSG:4326' }));
+    expect(tags.get(33550)).toEqual([2, 2, 0]);
+    expect(tags.get(33922)).toEqual([0, 0, 0, 20, 41, 0]);
+    expect(tags.get(34735)).toContain(4326);
+
+    const mercator = readTags(encodeGeoTiff(pixels, 3, 2, 3, { bbox: [0, 0, 300, 100], crs: 'EPSG:3857' }));
+    expect(mercator.get(34735)).toContain(3857);
+    expect(mercator.get(33550)).toEqual([100, 50, 0]);
+  });
+
+  it('marks a fourth channel as alpha', async () => {
+    const rgba = await sharp({ create: { width: 4, height: 4, channels: 4, background: { r: 1, g: 2, b: 3, alpha: 0.5 } } }).png().toBuffer();
+    const tiff = await toGeoTiff(rgba, { bbox: [0, 0, 1, 1], crs: 'EPSG:4326' });
+    expect(readTags(tiff).get(338)).toEqual([2]);
+    expect((await sharp(tiff).metadata()).hasAlpha).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import sharp from 'sharp';
+import type { BBox } from '@/lib/geo';
+
+export type GeoCrs = 'EPSG:4326' | 'EPSG:3857';
+
+// Where an image sits on the ground: bbox corners in the units of `crs`
+export interface Georeference {
+  bbox: BBox;
+  crs: GeoCrs;
+}
+
+const SHORT = 3;
+const LONG = 4;
+const DOUBLE = 12;
+
+interface TiffTag {
+  tag: number;
+  type: typeof SHORT | typeof LONG | typeof DOUBLE;
+  values: number[];
+}
+
+const TYPE_SIZE = { [SHORT]: 2, [LONG]: 4, [DOUBLE]: 8 };
+
+// GeoKeyDirectory: header, then (key, location, count, value) quadruples
+function geoKeys(crs: GeoCrs) {
+  if (crs === 'EPSG:3857') {
+    // GTModelType=Projected, GTRasterType=PixelIsArea, ProjectedCSType=3857
+    return [1, 1, 0, 3, 1024, 0, 1, 1, 1025, 0, 1, 1, 3072, 0, 1, 3857];
+  }
+  // GTModelType=Geographic, GTRasterType=PixelIsArea, GeographicType=4326
+  return [1, 1, 0, 3, 1024, 0, 1, 2, 1025, 0, 1, 1, 2048, 0, 1, 4326];
+}
+
+// Write an uncompressed, single-strip GeoTIFF from 8-bit interleaved pixels
+export function encodeGeoTiff(pixels: Buffer, width: number, height: number, channels: number, georef: Georeference): Buffer {
+  const [minX, minY, maxX, maxY] = georef.bbox;
+  const hasAlpha = channels === 2 || channels === 4;
+  const tags: TiffTag[] = [
+    { tag: 256, type: LONG, values: [width] },
+    { tag: 257, type: LONG, values: [height] },
+    { tag: 258, type: SHORT, values: new Array(channels).fill(8) },
+    { tag: 259, type: SHORT, values: [1] },
+    { tag: 262, type: SHORT, values: [channels >= 3 ? 2 : 1] },
+    { tag: 273, type: LONG, values: [8] },
+    { tag: 277, type: SHORT, values: [channels] },
+    { tag: 278, type: LONG, values: [height] },
+    { tag: 279, type: LONG, values: [pixels.length] },
+    { tag: 284, type: SHORT, values: [1] },
+    ...(hasAlpha ? [{ tag: 338, type: SHORT, values: [2] } as TiffTag] : []),
+    { tag: 33550, type: DOUBLE, values: [(maxX - minX) / width, (maxY - minY) / height, 0] },
+    { tag: 33922, type: DOUBLE, values: [0, 0, 0, minX, maxY, 0] },
+    { tag: 34735, type: SHORT, values: geoKeys(georef.crs) },
+  ];
+
+  const ifdOffset = 8 + pixels.length + (pixels.length % 2);
+  const ifdSize = 2 + tags.length * 12 + 4;
+  const overflowSize = tags.reduce((sum, t) => {
+    const size = TYPE_SIZE[t.type] * t.values.length;
+    return sum + (size > 4 ? size + (size % 2) : 0);
+  }, 0);
+  const out = Buffer.alloc(ifdOffset + ifdSize + overflowSize);
+
+  // Header: little-endian, magic 42, offset of the first IFD
+  out.write('II', 0, 'ascii');
+  out.writeUInt16LE(42, 2);
+  out.writeUInt32LE(ifdOffset, 4);
+  pixels.copy(out, 8);
+
+  const writeValue = (type: number, value: number, at: number) => {
+    if (type === SHORT) out.writeUInt16LE(value, at);
+    else if (type === LONG) out.writeUInt32LE(value, at);
+    else out.writeDoubleLE(value, at);
+  };
+
+  out.writeUInt16LE(tags.length, ifdOffset);
+  let overflow = ifdOffset + ifdSize;
+  tags.forEach((t, i) => {
+    const entry = ifdOffset + 2 + i * 12;
+    const size = TYPE_SIZE[t.type];
+    out.writeUInt16LE(t.tag, entry);
+    out.writeUInt16LE(t.type, entry + 2);
+    out.writeUInt32LE(t.values.length, entry + 4);
+    if (size * t.values.length <= 4) {
+      t.values.forEach((v, j) => writeValue(t.type, v, entry + 8 + j * size));
+    } else {
+      out.writeUInt32LE(overflow, entry + 8);
+      t.values.forEach((v, j) => writeValue(t.type, v, overflow + j * size));
+      overflow += size * t.values.length + ((size * t.values.length) % 2);
+    }
+  });
+  out.writeUInt32LE(0, ifdOffset + 2 + tags.length * 12);
+  return out;
+}
+
+// Decode any image sharp understands and wrap it as a GeoTIFF
+export async function toGeoTiff(image: Buffer, georef: Georeference): Promise<Buffer> {
+  const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true });
+  return encodeGeoTiff(data, info.width, info.height, info.channels, georef);
+}
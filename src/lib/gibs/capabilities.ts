@@ -0,0 +1,211 @@
+import { parseStringPromise, processors } from 'xml2js';
+import { addDays, addMonths, addYears, formatISO, parseISO } from 'date-fns';
+import { appendLog } from '@/lib/logger';
+import { withJsonCache } from '@/lib/cache';
+import { ImageryError } from '@/lib/imagery/errors';
+import { upstreamFetch } from '@/lib/upstream';
+import type { LayerInfo } from '@/lib/imagery/types';
+
+// GIBS publishes the same layers on a Web Mercator and a geographic endpoint
+export type GibsProjection = 'EPSG:3857' | 'EPSG:4326';
+export const DEFAULT_GIBS_PROJECTION: GibsProjection = 'EPSG:3857';
+const GIBS_ENDPOINTS: Record<GibsProjection, string> = {
+  'EPSG:3857': 'https://gibs.earthdata.nasa.gov/wmts/epsg3857/best',
+  'EPSG:4326': 'https://gibs.earthdata.nasa.gov/wmts/epsg4326/best',
+};
+// Meters per CRS unit, to turn WMTS scale denominators into tile spans
+const METERS_PER_UNIT: Record<GibsProjection, number> = {
+  'EPSG:3857': 1,
+  'EPSG:4326': 2 * Math.PI * 6378137 / 360,
+};
+// The 0.28mm "standardized rendering pixel" from the WMTS spec
+const WMTS_PIXEL_SIZE = 0.00028;
+// Expanding decades of daily periods is fine; runaway sub-daily ones are not
+const MAX_EXPANDED_DATES = 20000;
+
+export interface TileMatrix {
+  tileWidth: number;
+  tileHeight: number;
+  matrixWidth: number;
+  matrixHeight: number;
+  // Top-left corner and size of one tile, in CRS units (x = easting/longitude)
+  topLeft: [number, number];
+  tileSpan: [number, number];
+}
+
+export interface TileMatrixSet {
+  id: string;
+  crs: GibsProjection;
+  // Indexed by zoom level
+  matrices: TileMatrix[];
+}
+
+// A layer as advertised in the GIBS WMTS capabilities
+export interface GibsLayer extends LayerInfo {
+  tileMatrixSet: string;
+  format: string;
+  // Tile URL with {Time}, {TileMatrixSet}, {TileMatrix}, {TileRow}, {TileCol} placeholders
+  template: string;
+  maxZoom: number;
+  // ISO 8601 time values: single dates or start/end/period intervals
+  periods: string[];
+  defaultDate?: string;
+}
+
+export interface GibsCatalog {
+  projection: GibsProjection;
+  layers: GibsLayer[];
+  tileMatrixSets: Record<string, TileMatrixSet>;
+}
+
+// xml2js gives either a string or { _: text, $: attributes } depending on attributes
+const text = (node: any): string => (typeof node === 'string' ? node : node?._ ?? '').trim();
+const first = (nodes: any) => (Array.isArray(nodes) ? nodes[0] : undefined);
+
+function cadenceLabel(period: string) {
+  const match = period.match(/^P(\d+)([DMY])$/);
+  if (!match) return period.startsWith('PT') ? 'Sub-daily' : period;
+  const [, n, unit] = match;
+  const name = { D: 'day', M: 'month', Y: 'year' }[unit as 'D' | 'M' | 'Y'];
+  if (n === '1') return { D: 'Daily', M: 'Monthly', Y: 'Yearly' }[unit as 'D' | 'M' | 'Y'];
+  return `${n}-${name}`;
+}
+
+function parseTileMatrixSet(node: any, projection: GibsProjection): TileMatrixSet {
+  const matrices: TileMatrix[] = (node.TileMatrix || []).map((m: any) => {
+    const tileWidth = parseInt(text(first(m.TileWidth)), 10);
+    const tileHeight = parseInt(text(first(m.TileHeight)), 10);
+    const [a, b] = text(first(m.TopLeftCorner)).split(/\s+/).map(Number);
+    const unitsPerPixel = parseFloat(text(first(m.ScaleDenominator))) * WMTS_PIXEL_SIZE / METERS_PER_UNIT[projection];
+    return {
+      tileWidth,
+      tileHeight,
+      matrixWidth: parseInt(text(first(m.MatrixWidth)), 10),
+      matrixHeight: parseInt(text(first(m.MatrixHeight)), 10),
+      // EPSG:4326 corners are written latitude first
+      topLeft: projection === 'EPSG:4326' ? [b, a] : [a, b],
+      tileSpan: [unitsPerPixel * tileWidth, unitsPerPixel * tileHeight],
+    };
+  });
+  return { id: text(first(node.Identifier)), crs: projection, matrices };
+}
+
+function parseLayer(node: any, tileMatrixSets: Record<string, TileMatrixSet>): GibsLayer | null {
+  const value = text(first(node.Identifier));
+  if (!value) return null;
+  const timeDimension = (node.Dimension || []).find((d: any) => text(first(d.Identifier)) === 'Time');
+  const periods: string[] = timeDimension ? (timeDimension.Value || []).map(text).filter(Boolean) : [];
+  // Prefer a PNG legend; the SVG ones are large
+  const legends = (node.Style || []).flatMap((s: any) => s.LegendURL || []).map((l: any) => l.$ || {});
+  const legend = legends.find((l: any) => l.format === 'image/png') || legends[0];
+
+  const starts = periods.map(p => p.split('/')[0].slice(0, 10));
+  const ends = periods.map(p => (p.split('/')[1] || p).slice(0, 10));
+  const interval = periods.find(p => p.split('/').length === 3)?.split('/')[2];
+  const timeRange = periods.length > 0 ? { start: starts.sort()[0], end: ends.sort()[ends.length - 1] } : undefined;
+  const tileMatrixSet = text(first(first(node.TileMatrixSetLink)?.TileMatrixSet));
+  const format = text(first(node.Format));
+  const resource = (node.ResourceURL || []).map((r: any) => r.$ || {}).find((r: any) => r.resourceType === 'tile' && (!format || r.format === format));
+  if (!resource?.template || !tileMatrixSets[tileMatrixSet]) return null;
+  return {
+    label: text(first(node.Title)) || value,
+    value,
+    description: timeRange
+      ? `${interval ? `${cadenceLabel(interval)}, ` : ''}${timeRange.start} to ${timeRange.end}`
+      : 'Static layer (no time dimension)',
+    timeRange,
+    tileMatrixSet,
+    format,
+    template: resource.template,
+    maxZoom: tileMatrixSets[tileMatrixSet].matrices.length - 1,
+    legendUrl: legend?.href,
+    periods,
+    defaultDate: timeDimension ? text(first(timeDimension.Default)) || undefined : undefined,
+  };
+}
+
+// Every layer and tile matrix set on one GIBS endpoint, parsed once and cached on disk
+export async function fetchGibsCatalog(projection: GibsProjection = DEFAULT_GIBS_PROJECTION): Promise<GibsCatalog> {
+  const url = `${GIBS_ENDPOINTS[projection]}/1.0.0/WMTSCapabilities.xml`;
+  return withJsonCache('gibs:capabilities', { url, projection }, async () => {
+    await appendLog(`GIBS CAPABILITIES REQUEST: url=${url}`);
+    const start = Date.now();
+    const res = await upstreamFetch('gibs', url);
+    if (!res.ok) throw new ImageryError('Failed to fetch GIBS capabilities.', 502, { status: res.status });
+    // Strip ows:/xlink: prefixes so elements and attributes read the same everywhere
+    const parsed = await parseStringPromise(await res.text(), {
+      tagNameProcessors: [processors.stripPrefix],
+      attrNameProcessors: [processors.stripPrefix],
+    });
+    const contents = parsed.Capabilities.Contents[0];
+    const tileMatrixSets: Record<string, TileMatrixSet> = {};
+    for (const node of contents.TileMatrixSet || []) {
+      const set = parseTileMatrixSet(node, projection);
+      tileMatrixSets[set.id] = set;
+    }
+    const layers: GibsLayer[] = (contents.Layer || [])
+      .map((node: any) => parseLayer(node, tileMatrixSets))
+      .filter((l: GibsLayer | null): l is GibsLayer => l !== null)
+      .sort((a: GibsLayer, b: GibsLayer) => a.label.localeCompare(b.label));
+    await appendLog(`GIBS CAPABILITIES: projection=${projection}, layers=${layers.length}, tileMatrixSets=${Object.keys(tileMatrixSets).length}, time=${Date.now() - start}ms`);
+    return { projection, layers, tileMatrixSets };
+  });
+}
+
+// A layer together with its tile matrix set; 404 when the endpoint does not offer it
+export async function resolveGibsLayer(id: string, projection: GibsProjection = DEFAULT_GIBS_PROJECTION) {
+  const catalog = await fetchGibsCatalog(projection);
+  const layer = catalog.layers.find(l => l.value === id);
+  if (!layer) throw new ImageryError(`Unknown GIBS layer for ${projection}: ${id}`, 404);
+  return { layer, matrixSet: catalog.tileMatrixSets[layer.tileMatrixSet] };
+}
+
+// Tile URL from the layer's ResourceURL template; layers without a time dimension ignore `date`
+export function gibsTileUrl(layer: GibsLayer, date: string, z: number, x: number, y: number) {
+  return layer.template
+    .replace('{Time}', date)
+    .replace('{TileMatrixSet}', layer.tileMatrixSet)
+    .replace('{TileMatrix}', String(z))
+    .replace('{TileRow}', String(y))
+    .replace('{TileCol}', String(x));
+}
+
+// Layers whose title, identifier or description contain every search term
+export function searchGibsLayers(layers: GibsLayer[], keyword?: string | null) {
+  const terms = (keyword || '').toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return layers;
+  return layers.filter(l => {
+    const haystack = `${l.label} ${l.value} ${l.description || ''}`.toLowerCase().replace(/_/g, ' ');
+    return terms.every(t => haystack.includes(t));
+  });
+}
+
+function step(date: Date, interval: string) {
+  const match = interval.match(/^P(\d+)([DMY])$/);
+  if (!match) return addDays(date, 1);
+  const n = parseInt(match[1], 10);
+  if (match[2] === 'M') return addMonths(date, n);
+  if (match[2] === 'Y') return addYears(date, n);
+  return addDays(date, n);
+}
+
+// Dates (YYYY-MM-DD) covered by the time periods, optionally limited to from..to.
+// Sub-daily intervals collapse to one entry per day.
+export function expandPeriods(periods: string[], from?: string, to?: string): string[] {
+  const dates = new Set<string>();
+  for (const period of periods) {
+    const [startValue, endValue, interval = 'P1D'] = period.split('/');
+    if (!endValue) {
+      const day = startValue.slice(0, 10);
+      if ((!from || day >= from) && (!to || day <= to)) dates.add(day);
+      continue;
+    }
+    const end = endValue.slice(0, 10);
+    for (let date = parseISO(startValue.slice(0, 10)); ; date = step(date, interval)) {
+      const day = formatISO(date, { representation: 'date' });
+      if (day > end || (to && day > to) || dates.size >= MAX_EXPANDED_DATES) break;
+      if (!from || day >= from) dates.add(day);
+    }
+  }
+  return Array.from(dates).sort();
+}
@@ -0,0 +1,44 @@
+import sharp from 'sharp';
+import { appendLog } from '@/lib/logger';
+import type { BBox } from '@/lib/geo';
+import type { GibsLayer, TileMatrixSet } from './capabilities';
+import { stitchBBox } from './stitch';
+
+export interface StackLayer {
+  layer: GibsLayer;
+  matrixSet: TileMatrixSet;
+  date: string;
+  opacity: number;
+}
+
+// Scale the image's alpha by `opacity`
+async function withOpacity(image: Buffer, opacity: number) {
+  if (opacity >= 1) return image;
+  return sharp(image)
+    .ensureAlpha()
+    .composite([{ input: Buffer.from([0, 0, 0, Math.round(opacity * 255)]), raw: { width: 1, height: 1, channels: 4 }, tile: true, blend: 'dest-in' }])
+    .png()
+    .toBuffer();
+}
+
+// Stitch every layer over the same bbox and grid and blend them bottom first
+export async function composeLayerStack(stack: StackLayer[], bbox: BBox, width: number, height: number) {
+  const missingTiles: string[] = [];
+  const rendered = [];
+  // One layer at a time keeps upstream concurrency at the stitcher's limit
+  for (const entry of stack) {
+    const stitched = await stitchBBox(entry.layer, entry.matrixSet, entry.date, bbox, width, height);
+    missingTiles.push(...stitched.missingTiles.map(tile => `${entry.layer.value}:${tile}`));
+    rendered.push({ ...stitched, data: await withOpacity(stitched.data, entry.opacity) });
+  }
+  await appendLog(`GIBS LAYER STACK: layers=${stack.map(e => `${e.layer.value}@${e.date}:${e.opacity}`).join(',')}, size=${width}x${height}, missing=${missingTiles.length}`);
+
+  const composed = sharp({ create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+    .composite(rendered.map(r => ({ input: r.data, left: 0, top: 0 })));
+  // An opaque JPEG base at full opacity hides the canvas, so the result needs no alpha
+  const opaque = rendered[0].contentType === 'image/jpeg' && stack[0].opacity >= 1;
+  const data = opaque
+    ? await sharp(await composed.png().toBuffer()).flatten({ background: '#ffffff' }).jpeg().toBuffer()
+    : await composed.png().toBuffer();
+  return { data, contentType: opaque ? 'image/jpeg' : 'image/png', missingTiles };
+}
@@ -0,0 +1,171 @@
+import sharp from 'sharp';
+import { appendLog, logWarn } from '@/lib/logger';
+import { withCache } from '@/lib/cache';
+import { ImageryError, UpstreamError } from '@/lib/imagery/errors';
+import { upstreamFetch } from '@/lib/upstream';
+import type { BBox } from '@/lib/geo';
+import { GibsLayer, GibsProjection, TileMatrixSet, gibsTileUrl } from './capabilities';
+
+// Half the Web Mercator world width in meters
+export const MERCATOR_ORIGIN = 20037508.342789244;
+const MERCATOR_MAX_LAT = 85.0511287798;
+// Upstream tile requests in flight at once for one stitch
+const TILE_CONCURRENCY = 6;
+
+export interface StitchResult {
+  data: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+  zoom: number;
+  // z/row/col of tiles GIBS did not have; their area is transparent
+  missingTiles: string[];
+}
+
+// lat/lon in the units of the tile matrix set's CRS (x = easting or longitude)
+export function toCrs(crs: GibsProjection, lat: number, lon: number): [number, number] {
+  if (crs === 'EPSG:4326') return [lon, lat];
+  const phi = Math.max(Math.min(lat, MERCATOR_MAX_LAT), -MERCATOR_MAX_LAT) * Math.PI / 180;
+  return [lon / 180 * MERCATOR_ORIGIN, Math.log(Math.tan(Math.PI / 4 + phi / 2)) / Math.PI * MERCATOR_ORIGIN];
+}
+
+// WGS84 bbox in CRS units; a bbox with minLon > maxLon crosses the antimeridian and
+// comes back with maxX past the eastern edge of the world
+export function projectBBox(crs: GibsProjection, [minLon, minLat, maxLon, maxLat]: BBox): BBox {
+  const [minX, minY] = toCrs(crs, minLat, minLon);
+  const [maxX, maxY] = toCrs(crs, maxLat, minLon > maxLon ? maxLon + 360 : maxLon);
+  return [minX, minY, maxX, maxY];
+}
+
+const worldBounds = (crs: GibsProjection) => (crs === 'EPSG:4326' ? { minX: -180, width: 360 } : { minX: -MERCATOR_ORIGIN, width: 2 * MERCATOR_ORIGIN });
+
+// Upstream tiles are cached individually so overlapping stitches share them
+export async function fetchTileData(url: string, date: string) {
+  const { data } = await withCache('gibs:tile', url, async () => {
+    const tileRes = await upstreamFetch('gibs', url);
+    if (!tileRes.ok) {
+      await logWarn(`GIBS TILE ERROR: status=${tileRes.status}`);
+      throw new ImageryError('Failed to fetch GIBS tile.', tileRes.status);
+    }
+    return { data: Buffer.from(await tileRes.arrayBuffer()) };
+  }, date);
+  return data;
+}
+
+// Run `fn` over `items` with at most `limit` calls pending
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Coarsest zoom whose pixels are at least as fine as the output's; the deepest level otherwise
+function pickZoom(set: TileMatrixSet, unitsPerPixel: number, maxZoom: number) {
+  for (let z = 0; z <= maxZoom; z++) {
+    const m = set.matrices[z];
+    if (m.tileSpan[0] / m.tileWidth <= unitsPerPixel) return z;
+  }
+  return maxZoom;
+}
+
+// Output pixel size whose longer side is `longSide`, keeping the bbox's aspect ratio in CRS units
+export function outputSizeForCrsBBox([minX, minY, maxX, maxY]: BBox, longSide: number) {
+  const width = maxX - minX;
+  const height = maxY - minY;
+  if (width >= height) return { width: longSide, height: Math.max(1, Math.round(longSide * height / width)) };
+  return { width: Math.max(1, Math.round(longSide * width / height)), height: longSide };
+}
+
+// Render exactly `bbox` (in the set's CRS units) at width x height from the covering tiles
+export async function stitchBBox(
+  layer: GibsLayer,
+  set: TileMatrixSet,
+  date: string,
+  bbox: BBox,
+  width: number,
+  height: number,
+): Promise<StitchResult> {
+  const [x0, y0, x1, y1] = bbox;
+  if (!(x1 > x0) || !(y1 > y0)) throw new ImageryError('Invalid bounding box for GIBS stitching', 400);
+
+  // 1. Zoom level and native pixel size
+  const zoom = pickZoom(set, Math.min((x1 - x0) / width, (y1 - y0) / height), layer.maxZoom);
+  const matrix = set.matrices[zoom];
+  const { tileWidth, tileHeight, matrixWidth, matrixHeight, topLeft, tileSpan } = matrix;
+  const unitsPerPixel = tileSpan[0] / tileWidth;
+
+  // 2. Covering tiles, one run per world copy the bbox touches (antimeridian wrap)
+  const rowStart = Math.max(Math.floor((topLeft[1] - y1) / tileSpan[1]), 0);
+  const rowEnd = Math.min(Math.ceil((topLeft[1] - y0) / tileSpan[1]), matrixHeight) - 1;
+  const world = worldBounds(set.crs);
+  const tiles: { row: number; col: number; minX: number; maxY: number }[] = [];
+  for (let copy = Math.floor((x0 - world.minX) / world.width); world.minX + copy * world.width < x1; copy++) {
+    const shift = copy * world.width;
+    const segMinX = Math.max(x0, world.minX + shift) - shift;
+    const segMaxX = Math.min(x1, world.minX + shift + world.width) - shift;
+    const colStart = Math.max(Math.floor((segMinX - topLeft[0]) / tileSpan[0]), 0);
+    const colEnd = Math.min(Math.ceil((segMaxX - topLeft[0]) / tileSpan[0]), matrixWidth) - 1;
+    for (let row = rowStart; row <= rowEnd; row++) {
+      for (let col = colStart; col <= colEnd; col++) {
+        tiles.push({ row, col, minX: topLeft[0] + col * tileSpan[0] + shift, maxY: topLeft[1] - row * tileSpan[1] });
+      }
+    }
+  }
+  await appendLog(`GIBS STITCH: layer=${layer.value}, date=${date}, z=${zoom}, tiles=${tiles.length}, bbox=${bbox.join(',')}, size=${width}x${height}`);
+
+  // 3. Fetch with bounded concurrency; tiles GIBS does not have are recorded, not fatal
+  const missingTiles: string[] = [];
+  const fetched = await mapWithConcurrency(tiles, TILE_CONCURRENCY, async tile => {
+    try {
+      return { tile, data: await fetchTileData(gibsTileUrl(layer, date, zoom, tile.col, tile.row), date) };
+    } catch (err) {
+      // A throttled or failing GIBS fails the stitch rather than leaving holes
+      if (!(err instanceof ImageryError) || err instanceof UpstreamError) throw err;
+      missingTiles.push(`${zoom}/${tile.row}/${tile.col}`);
+      return null;
+    }
+  });
+
+  // 4. Composite on a transparent canvas covering both the bbox and the tiles
+  const originX = Math.min(x0, ...tiles.map(t => t.minX));
+  const originY = Math.max(y1, ...tiles.map(t => t.maxY));
+  const extentX = Math.max(x1, ...tiles.map(t => t.minX + tileSpan[0]));
+  const extentY = Math.min(y0, ...tiles.map(t => t.maxY - tileSpan[1]));
+  const canvasWidth = Math.ceil((extentX - originX) / unitsPerPixel);
+  const canvasHeight = Math.ceil((originY - extentY) / unitsPerPixel);
+  const canvas = await sharp({ create: { width: canvasWidth, height: canvasHeight, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+    .composite(fetched.filter(f => f !== null).map(({ tile, data }) => ({
+      input: data,
+      left: Math.round((tile.minX - originX) / unitsPerPixel),
+      top: Math.round((originY - tile.maxY) / unitsPerPixel),
+    })))
+    .png()
+    .toBuffer();
+
+  // 5. Crop to the bbox and scale to the requested size
+  const left = Math.min(Math.round((x0 - originX) / unitsPerPixel), canvasWidth - 1);
+  const top = Math.min(Math.round((originY - y1) / unitsPerPixel), canvasHeight - 1);
+  const cropped = sharp(canvas)
+    .extract({
+      left,
+      top,
+      width: Math.max(Math.min(Math.round((x1 - x0) / unitsPerPixel), canvasWidth - left), 1),
+      height: Math.max(Math.min(Math.round((y1 - y0) / unitsPerPixel), canvasHeight - top), 1),
+    })
+    .resize(width, height, { fit: 'fill' });
+
+  // Opaque JPEG layers stay JPEG unless holes need transparency
+  const transparent = layer.format === 'image/png' || missingTiles.length > 0 || tiles.length === 0;
+  const data = transparent ? await cropped.png().toBuffer() : await cropped.flatten({ background: '#ffffff' }).jpeg().toBuffer();
+  if (missingTiles.length > 0) {
+    await logWarn(`GIBS STITCH MISSING TILES: layer=${layer.value}, date=${date}, tiles=${missingTiles.join(',')}`);
+  }
+  return { data, contentType: transparent ? 'image/png' : 'image/jpeg', width, height, zoom, missingTiles: missingTiles.sort() };
+}
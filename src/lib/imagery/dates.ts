@@ -0,0 +1,15 @@
+// Pick the date (or datetime) closest to `target`; null for an empty list
+export function findClosestDate(dates: string[], target: string): string | null {
+  if (dates.length === 0) return null;
+  const requested = new Date(target).getTime();
+  let closest = dates[0];
+  let minDiff = Math.abs(new Date(closest).getTime() - requested);
+  for (const d of dates) {
+    const diff = Math.abs(new Date(d).getTime() - requested);
+    if (diff < minDiff) {
+      closest = d;
+      minDiff = diff;
+    }
+  }
+  return closest;
+}
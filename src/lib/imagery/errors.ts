@@ -0,0 +1,35 @@
+// Error raised by providers; routes turn it into a JSON response with `status`
+export class ImageryError extends Error {
+  status: number;
+  details?: Record<string, unknown>;
+
+  constructor(message: string, status = 500, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ImageryError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export type UpstreamErrorCode =
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_UNREACHABLE'
+  | 'UPSTREAM_RATE_LIMITED'
+  | 'UPSTREAM_ERROR'
+  | 'UPSTREAM_UNAVAILABLE';
+
+// An upstream API that timed out, kept failing or is being short-circuited. `code`,
+// `upstream` and `retryAfter` (seconds) reach the client in the JSON error body.
+export class UpstreamError extends ImageryError {
+  code: UpstreamErrorCode;
+  upstream: string;
+  retryAfter?: number;
+
+  constructor(message: string, status: number, code: UpstreamErrorCode, upstream: string, retryAfter?: number) {
+    super(message, status, { code, upstream, ...(retryAfter !== undefined ? { retryAfter } : {}) });
+    this.name = 'UpstreamError';
+    this.code = code;
+    this.upstream = upstream;
+    this.retryAfter = retryAfter;
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { parseImageryQuery } from './http';
+
+const parse = (query: string) => parseImageryQuery(new URLSearchParams(query));
+
+describe('parseImageryQuery', () => {
+  it('requires numeric lat and lon', () => {
+    expect(parse('lat=45.5&lon=-73.6')).toMatchObject({ lat: 45.5, lon: -73.6, resolution: 1024 });
+    expect(() => parse('lon=10')).toThrow('lat must be a number');
+    expect(() => parse('lat=&lon=10')).toThrow('lat must be a number');
+    expect(() => parse('lat=45&lon=12abc')).toThrow('lon must be a number');
+  });
+
+  it('centres an AOI given without lat and lon on the AOI', () => {
+    const aoi = { type: 'Polygon', coordinates: [[[10, 40], [12, 40], [12, 44], [10, 44], [10, 40]]] };
+    expect(parse(`aoi=${encodeURIComponent(JSON.stringify(aoi))}`)).toMatchObject({ lat: 42, lon: 11 });
+  });
+
+  it('takes tiles by z/x/y alone and refuses bad coordinates', () => {
+    expect(parse('z=3&x=4&y=2').tile).toEqual({ z: 3, x: 4, y: 2 });
+    expect(() => parse('z=3&x=4')).toThrow('tile y');
+    expect(() => parse('z=3&x=abc&y=2')).toThrow('tile x');
+    expect(() => parse('z=3&x=1.5&y=2')).toThrow('tile x');
+  });
+
+  it('refuses a malformed date', () => {
+    expect(parse('lat=1&lon=2&date=2024-05-01').date).toBe('2024-05-01');
+    expect(() => parse('lat=1&lon=2&date=yesterday')).toThrow('date must be');
+  });
+});
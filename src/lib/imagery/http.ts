@@ -0,0 +1,226 @@
+import { NextResponse } from 'next/server';
+import { appendLog, logError } from '@/lib/logger';
+import { ImageryError, UpstreamError } from './errors';
+import { bboxCenter, bboxOfPolygon, polygonError } from '@/lib/geo';
+import type { ImageResult, ImageryQuery } from './types';
+
+function parseNumber(value: string | null, fallback: number) {
+  const parsed = parseFloat(value ?? '');
+  return isNaN(parsed) ? fallback : parsed;
+}
+
+// A number that must be present; `Number` rather than parseFloat so '12abc' is refused
+function parseRequiredNumber(searchParams: URLSearchParams, name: string) {
+  const value = searchParams.get(name)?.trim();
+  const parsed = value ? Number(value) : NaN;
+  if (!Number.isFinite(parsed)) {
+    throw new ImageryError(`Missing or invalid parameter: ${name} must be a number`, 400);
+  }
+  return parsed;
+}
+
+function parseTileCoordinate(searchParams: URLSearchParams, name: string) {
+  const value = searchParams.get(name)?.trim();
+  const parsed = value ? Number(value) : NaN;
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new ImageryError(`Missing or invalid parameter: tile ${name} must be a non-negative integer`, 400);
+  }
+  return parsed;
+}
+
+function parsePositive(searchParams: URLSearchParams, name: string) {
+  const value = searchParams.get(name);
+  if (value === null || value === '') return undefined;
+  const parsed = parseFloat(value);
+  if (isNaN(parsed) || parsed <= 0) {
+    throw new ImageryError(`Invalid parameter: ${name} must be a positive number`, 400);
+  }
+  return parsed;
+}
+
+// `aoi` is a URL-encoded GeoJSON Polygon geometry
+function parseAoi(value: string | null) {
+  if (!value) return undefined;
+  let geometry;
+  try {
+    geometry = JSON.parse(value);
+  } catch {
+    throw new ImageryError('Invalid parameter: aoi must be GeoJSON', 400);
+  }
+  const problem = polygonError(geometry);
+  if (problem) throw new ImageryError(`Invalid parameter: ${problem}`, 400);
+  return geometry;
+}
+
+function parseFormat(value: string | null): ImageryQuery['format'] {
+  if (!value || value === 'image') return undefined;
+  if (value === 'geotiff') return value;
+  throw new ImageryError(`Invalid parameter: format must be 'image' or 'geotiff'`, 400);
+}
+
+export function parseCrs(value: string | null): ImageryQuery['crs'] {
+  if (!value) return undefined;
+  if (value === 'EPSG:3857' || value === 'EPSG:4326') return value;
+  throw new ImageryError(`Invalid parameter: crs must be 'EPSG:3857' or 'EPSG:4326'`, 400);
+}
+
+function parseComposite(value: string | null): ImageryQuery['composite'] {
+  if (!value) return undefined;
+  if (value === 'median' || value === 'least-cloudy') return value;
+  throw new ImageryError(`Invalid parameter: composite must be 'median' or 'least-cloudy'`, 400);
+}
+
+function parseOption<T extends string>(searchParams: URLSearchParams, name: string, allowed: readonly T[]): T | undefined {
+  const value = searchParams.get(name);
+  if (!value) return undefined;
+  const upper = value.toUpperCase() as T;
+  if (!allowed.includes(upper)) {
+    throw new ImageryError(`Invalid parameter: ${name} must be one of ${allowed.join(', ')}`, 400);
+  }
+  return upper;
+}
+
+// YYYY-MM-DD or a full ISO datetime
+function parseDateTime(searchParams: URLSearchParams, name: string) {
+  const value = searchParams.get(name);
+  if (!value) return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}(T.+)?$/.test(value) || isNaN(Date.parse(value))) {
+    throw new ImageryError(`Invalid parameter: ${name} must be YYYY-MM-DD or an ISO datetime`, 400);
+  }
+  return value;
+}
+
+function parsePercent(searchParams: URLSearchParams, name: string) {
+  const value = searchParams.get(name);
+  if (value === null || value === '') return undefined;
+  const parsed = parseFloat(value);
+  if (isNaN(parsed) || parsed < 0 || parsed > 100) {
+    throw new ImageryError(`Invalid parameter: ${name} must be between 0 and 100`, 400);
+  }
+  return parsed;
+}
+
+// `sort=datetime` or `sort=-cloudCover`; a leading '-' sorts descending
+function parseSort(value: string | null): ImageryQuery['sort'] {
+  if (!value) return undefined;
+  const field = value.replace(/^[-+]/, '');
+  if (field !== 'datetime' && field !== 'cloudCover') {
+    throw new ImageryError(`Invalid parameter: sort must be datetime or cloudCover, optionally prefixed with '-'`, 400);
+  }
+  return { field, direction: value.startsWith('-') ? 'desc' : 'asc' };
+}
+
+export const MAX_STACKED_LAYERS = 8;
+
+// `layers=base,overlay:0.6,other:1:2024-05-01`: id[:opacity[:date]], bottom layer first
+function parseLayerStack(value: string | null): ImageryQuery['layers'] {
+  if (!value) return undefined;
+  const entries = value.split(',').filter(Boolean).map(item => {
+    const [layer, opacity, date] = item.split(':');
+    const parsedOpacity = opacity ? parseFloat(opacity) : undefined;
+    if (!layer) throw new ImageryError('Invalid parameter: layers entries need a layer id', 400);
+    if (parsedOpacity !== undefined && (isNaN(parsedOpacity) || parsedOpacity < 0 || parsedOpacity > 1)) {
+      throw new ImageryError(`Invalid parameter: opacity for ${layer} must be between 0 and 1`, 400);
+    }
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new ImageryError(`Invalid parameter: date for ${layer} must be YYYY-MM-DD`, 400);
+    }
+    return { layer, ...(parsedOpacity !== undefined ? { opacity: parsedOpacity } : {}), ...(date ? { date } : {}) };
+  });
+  if (entries.length === 0 || entries.length > MAX_STACKED_LAYERS) {
+    throw new ImageryError(`Invalid parameter: layers must list 1-${MAX_STACKED_LAYERS} layers`, 400);
+  }
+  return entries;
+}
+
+// Output size in pixels; GIBS stitches a canvas of this size in memory
+export const MAX_RESOLUTION = 4096;
+
+function parseResolution(value: string | null) {
+  if (value === null || value === '') return 1024;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0 || parsed > MAX_RESOLUTION) {
+    throw new ImageryError(`Invalid parameter: resolution must be a whole number of pixels between 1 and ${MAX_RESOLUTION}`, 400);
+  }
+  return parsed;
+}
+
+// Build an ImageryQuery from the query-string conventions shared by all image routes
+export function parseImageryQuery(searchParams: URLSearchParams): ImageryQuery {
+  const isTile = searchParams.has('z') || searchParams.has('x') || searchParams.has('y');
+  const aoi = parseAoi(searchParams.get('aoi'));
+  // Tiles are addressed by z/x/y alone, and an AOI without lat/lon is centred on itself
+  let lat = 0;
+  let lon = 0;
+  if (!isTile && aoi && !searchParams.get('lat') && !searchParams.get('lon')) {
+    ({ lat, lon } = bboxCenter(bboxOfPolygon(aoi)));
+  } else if (!isTile) {
+    lat = parseRequiredNumber(searchParams, 'lat');
+    lon = parseRequiredNumber(searchParams, 'lon');
+  }
+  const resolution = parseResolution(searchParams.get('resolution'));
+  const query: ImageryQuery = {
+    lat,
+    lon,
+    resolution,
+    dim: parseNumber(searchParams.get('dim'), 0.2),
+    extentKm: parsePositive(searchParams, 'extentKm'),
+    metersPerPixel: parsePositive(searchParams, 'metersPerPixel'),
+    aoi,
+    date: parseDateTime(searchParams, 'date') || new Date().toISOString().slice(0, 10),
+    time: searchParams.get('time') || undefined,
+    timezone: searchParams.get('timezone') || undefined,
+    rangeDays: parsePositive(searchParams, 'rangeDays'),
+    from: parseDateTime(searchParams, 'from'),
+    to: parseDateTime(searchParams, 'to'),
+    maxCloudCover: parsePercent(searchParams, 'maxCloudCover'),
+    platform: searchParams.get('platform') || undefined,
+    tileId: searchParams.get('tileId')?.toUpperCase() || undefined,
+    sort: parseSort(searchParams.get('sort')),
+    maxResults: parsePositive(searchParams, 'maxResults'),
+    composite: parseComposite(searchParams.get('composite')),
+    localCloudCover: ['1', 'true'].includes(searchParams.get('localCloudCover') || '') || undefined,
+    acquisitionTime: searchParams.get('acquisitionTime') || undefined,
+    layer: searchParams.get('layer') || undefined,
+    layers: parseLayerStack(searchParams.get('layers')),
+    collection: searchParams.get('collection') || undefined,
+    orbitDirection: parseOption(searchParams, 'orbitDirection', ['ASCENDING', 'DESCENDING'] as const),
+    polarization: parseOption(searchParams, 'polarization', ['DV', 'SV', 'DH', 'SH'] as const),
+    product: searchParams.get('product') || undefined,
+    format: parseFormat(searchParams.get('format')),
+    crs: parseCrs(searchParams.get('crs')),
+  };
+  if (isTile) {
+    query.tile = {
+      z: parseTileCoordinate(searchParams, 'z'),
+      x: parseTileCoordinate(searchParams, 'x'),
+      y: parseTileCoordinate(searchParams, 'y'),
+    };
+  }
+  return query;
+}
+
+export function imageResponse(result: ImageResult) {
+  return new NextResponse(result.data, {
+    headers: {
+      'Content-Type': result.contentType,
+      ...(result.acquisitionDate ? { 'x-image-metadata': result.acquisitionDate } : {}),
+      ...(result.filename ? { 'Content-Disposition': `attachment; filename="${result.filename}"` } : {}),
+      ...result.headers,
+    },
+  });
+}
+
+// ImageryError keeps its status and details; anything else is an internal error
+export async function errorResponse(error: unknown, context: string) {
+  if (error instanceof ImageryError) {
+    await appendLog(`${context} Error: ${error.status} - ${error.message}`, { level: error.status >= 500 ? 'error' : 'warn', status: error.status, ...error.details });
+    const retryAfter = error instanceof UpstreamError ? error.retryAfter : undefined;
+    return NextResponse.json({ error: error.message, ...error.details }, {
+      status: error.status,
+      ...(retryAfter !== undefined ? { headers: { 'Retry-After': String(retryAfter) } } : {}),
+    });
+  }
+  await logError(`${context} Error: ${error instanceof Error ? error.message : error}`, error instanceof Error ? { stack: error.stack } : {});
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
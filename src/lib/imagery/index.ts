@@ -0,0 +1,18 @@
+import { nasaProvider } from './providers/nasa';
+import { copernicusProvider } from './providers/copernicus';
+import { gibsProvider } from './providers/gibs';
+import type { ImageryProvider } from './types';
+
+export * from './types';
+export { ImageryError, UpstreamError } from './errors';
+
+// Register new sources here; the /api/imagery route and the explorer pick them up
+const PROVIDERS: ImageryProvider[] = [nasaProvider, copernicusProvider, gibsProvider];
+
+export function listProviders(): ImageryProvider[] {
+  return PROVIDERS;
+}
+
+export function getProvider(id: string | null): ImageryProvider | undefined {
+  return PROVIDERS.find(p => p.id === id);
+}
@@ -0,0 +1,38 @@
+import { toGeoTiff } from '@/lib/geotiff';
+import { withCache } from '@/lib/cache';
+import { ImageryError } from './errors';
+import type { ImageResult, ImageryProvider, ImageryQuery } from './types';
+
+// The newest date an image shows, layer stacks included
+export function newestDate(query: ImageryQuery) {
+  return [query.date, ...(query.layers || []).map(entry => entry.date || '')].sort().pop();
+}
+
+// Provider fetch through the on-disk cache; the outcome is reported in `x-cache`
+export async function fetchImageCached(provider: ImageryProvider, query: ImageryQuery): Promise<ImageResult> {
+  const { data, meta, cache } = await withCache(`${provider.id}:image`, query, async () => {
+    const { data, ...meta } = await provider.fetchImage(query);
+    return { data, meta };
+  }, newestDate(query));
+  return { ...meta, data, headers: { ...meta.headers, 'x-cache': cache } };
+}
+
+// Fetch from the provider and convert to the requested output format
+export async function renderImage(provider: ImageryProvider, query: ImageryQuery): Promise<ImageResult> {
+  const result = await fetchImageCached(provider, query);
+  if (query.format !== 'geotiff') return result;
+
+  const day = (result.acquisitionDate || query.date).slice(0, 10);
+  const filename = `${provider.id}-${day}.tif`;
+  // Providers that render GeoTIFF natively (Copernicus) are passed through
+  if (result.contentType === 'image/tiff') return { ...result, filename };
+  if (!result.georef) {
+    throw new ImageryError(`GeoTIFF export is not supported by provider: ${provider.id}`, 400);
+  }
+  return {
+    ...result,
+    data: await toGeoTiff(result.data, result.georef),
+    contentType: 'image/tiff',
+    filename,
+  };
+}
@@ -0,0 +1,322 @@
+import { appendLog, logError } from '@/lib/logger';
+import { withCache } from '@/lib/cache';
+import { ImageryError } from '../errors';
+import { findClosestDate } from '../dates';
+import { getCopernicusTokenManager } from '@/lib/copernicus/token';
+import { resolveBBox, resolveOutputGrid } from '@/lib/copernicus/grid';
+import { searchCatalog } from '@/lib/copernicus/catalog';
+import { aoiCloudCover } from '@/lib/copernicus/statistics';
+import { CollectionSpec, getCollection, listCollections } from '@/lib/copernicus/collections';
+import { renderHillshade } from '@/lib/copernicus/hillshade';
+import { compositeEvalscript, readCompositeResponse } from '@/lib/copernicus/composite';
+import { BBox, PolygonGeometry, bboxSizeMeters, outputSizeForBBox } from '@/lib/geo';
+import { CUSTOM_PRODUCT, getProduct, listProducts, validateEvalscript } from '@/lib/copernicus/evalscripts';
+import type { AvailabilityResult, ImageryProvider, ImageryQuery, Scene, SceneSearchResult } from '../types';
+
+// Overridable so the provider can run against local stub servers
+const SH_BASE_URL = process.env.COPERNICUS_SH_URL || 'https://sh.dataspace.copernicus.eu';
+const PROCESS_URL = `${SH_BASE_URL}/api/v1/process`;
+
+// Longer side of scene quicklooks in pixels
+const QUICKLOOK_SIZE = 160;
+// Scene-level cloud filter for single-scene renders (and the availability they are picked from)
+// unless `maxCloudCover` is given
+const DEFAULT_MAX_CLOUD_COVERAGE = 20;
+
+// Process API data source for a collection, with its filters and the query's SAR options
+function dataSource(
+  collection: CollectionSpec,
+  query: Pick<ImageryQuery, 'orbitDirection' | 'polarization'>,
+  timeRange?: { from: string; to: string },
+  maxCloudCoverage?: number,
+) {
+  return {
+    type: collection.processType,
+    ...(timeRange ? { timeRange } : {}),
+    dataFilter: {
+      ...collection.dataFilter,
+      ...(collection.cloudCover && maxCloudCoverage !== undefined ? { maxCloudCoverage } : {}),
+      ...(collection.filters.includes('orbitDirection') && query.orbitDirection ? { orbitDirection: query.orbitDirection } : {}),
+      ...(collection.filters.includes('polarization') && query.polarization ? { polarization: query.polarization } : {}),
+    },
+    ...(collection.processing ? { processing: collection.processing } : {}),
+  };
+}
+
+// Search window as ISO datetimes: explicit from/to days, or date ± rangeDays
+function searchWindow(query: ImageryQuery, rangeDays: number) {
+  if (query.from || query.to) {
+    if (!query.from || !query.to) throw new ImageryError('Missing required parameters: from and to', 400);
+    const from = query.from.length === 10 ? `${query.from}T00:00:00Z` : query.from;
+    const to = query.to.length === 10 ? `${query.to}T23:59:59Z` : query.to;
+    if (Date.parse(from) > Date.parse(to)) throw new ImageryError('Invalid parameters: from must not be after to', 400);
+    return { from: new Date(from).toISOString(), to: new Date(to).toISOString() };
+  }
+  const dateObj = new Date(query.date);
+  return {
+    from: new Date(dateObj.getTime() - rangeDays * 24 * 60 * 60 * 1000).toISOString(),
+    to: new Date(dateObj.getTime() + rangeDays * 24 * 60 * 60 * 1000).toISOString(),
+  };
+}
+
+// Scenes from the Catalog API, filtered upstream with CQL2
+async function fetchAvailableScenes(query: ImageryQuery, rangeDays = 7): Promise<SceneSearchResult> {
+  const collection = getCollection(query.collection);
+  const { from, to } = searchWindow(query, rangeDays);
+  // Static datasets have one timeless "scene" so scene-based flows still work
+  if (!collection.catalogId) {
+    return { scenes: [{ id: collection.id, datetime: `${query.date}T00:00:00Z`, platform: collection.label }], total: 1, truncated: false };
+  }
+  const bbox = resolveBBox(query);
+  const search = {
+    collection,
+    bbox,
+    aoi: query.aoi,
+    from,
+    to,
+    maxCloudCover: query.maxCloudCover,
+    platform: query.platform,
+    tileId: query.tileId,
+    orbitDirection: query.orbitDirection,
+    polarization: query.polarization,
+    sort: query.sort,
+    maxResults: query.maxResults,
+  };
+  if (!query.localCloudCover) return searchCatalog(search);
+
+  // Tile-wide cloud cover says little about a small AOI: search without it, then
+  // filter and sort on the AOI's own cloud fraction
+  const [result, local] = await Promise.all([
+    searchCatalog({ ...search, maxCloudCover: undefined, sort: query.sort?.field === 'cloudCover' ? undefined : query.sort }),
+    aoiCloudCover(collection, bbox, query.aoi, from, to),
+  ]);
+  const scenes = result.scenes
+    .map(scene => ({ ...scene, localCloudCover: local[scene.datetime.slice(0, 10)] }))
+    .filter(scene => query.maxCloudCover === undefined || (scene.localCloudCover !== undefined && scene.localCloudCover <= query.maxCloudCover));
+  if (query.sort?.field === 'cloudCover') {
+    // Scenes without a local value (no valid pixels over the AOI) go last
+    const direction = query.sort.direction === 'desc' ? -1 : 1;
+    const key = (scene: Scene) => scene.localCloudCover ?? (direction > 0 ? Infinity : -Infinity);
+    scenes.sort((a, b) => (key(a) - key(b)) * direction);
+  }
+  return { scenes, total: result.truncated ? null : scenes.length, truncated: result.truncated };
+}
+
+// Process API request body: one bounds (bbox or polygon), data sources, and the rendered outputs
+interface ProcessRequest {
+  input: {
+    bounds: { bbox?: BBox; geometry?: PolygonGeometry; properties: { crs: string } };
+    data: ReturnType<typeof dataSource>[];
+  };
+  output: {
+    width: number;
+    height: number;
+    responses: { identifier: string; format: { type: string } }[];
+  };
+  evalscript: string;
+}
+
+// Send a Process API request and return the rendered bytes
+// (a tar archive when several outputs are requested)
+async function runProcessRequest(tokenManager: ReturnType<typeof getCopernicusTokenManager>, requestBody: ProcessRequest, accept?: string) {
+  await appendLog('Sending request to Copernicus Process API');
+  const processResponse = await tokenManager.authorizedFetch(PROCESS_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(accept ? { Accept: accept } : {}) },
+    body: JSON.stringify(requestBody),
+  });
+
+  if (!processResponse.ok) {
+    const errorText = await processResponse.text();
+    await logError(`Copernicus Process API Error: ${processResponse.status} - ${errorText}`);
+    // Attempt to parse JSON error if available
+    try {
+      const errorJson = JSON.parse(errorText);
+      throw new ImageryError('Copernicus API Error', processResponse.status, { details: errorJson });
+    } catch (e) {
+      if (e instanceof ImageryError) throw e;
+      throw new ImageryError(`Failed to fetch image from Copernicus API: ${processResponse.statusText}`, processResponse.status, { details: errorText });
+    }
+  }
+
+  await appendLog(`Copernicus Process API Response Status: ${processResponse.status}`);
+  return Buffer.from(await processResponse.arrayBuffer());
+}
+
+export const copernicusProvider: ImageryProvider = {
+  id: 'copernicus',
+
+  describe() {
+    const configured = !!(process.env.COPERNICUS_CLIENT_ID && process.env.COPERNICUS_CLIENT_SECRET);
+    return {
+      id: 'copernicus',
+      label: 'Copernicus',
+      description: 'Sentinel-2 L2A scenes rendered by the Copernicus Data Space Process API',
+      requiresScene: true,
+      supportsDim: true,
+      supportsLayers: false,
+      supportsTiles: false,
+      supportsGeoTiff: true,
+      resolutions: [512, 1024, 2048],
+      products: listProducts(),
+      collections: listCollections(),
+      supportsCustomScripts: true,
+      supportsQuicklooks: true,
+      supportsSceneSearch: true,
+      credentials: configured ? 'configured' : 'missing',
+    };
+  },
+
+  async listLayers() {
+    return [];
+  },
+
+  async searchAvailability(query): Promise<AvailabilityResult> {
+    await appendLog(`Copernicus Availability Request: collection=${query.collection || 'default'}, lat=${query.lat}, lon=${query.lon}, date=${query.date}, time=${query.time}, timezone=${query.timezone}, dim=${query.dim}, orbitDirection=${query.orbitDirection}, polarization=${query.polarization}`);
+    // Only list scenes a single-scene render would use, so a picked date never renders blank
+    const collection = getCollection(query.collection);
+    const maxCloudCover = query.maxCloudCover ?? (collection.cloudCover && !query.localCloudCover ? DEFAULT_MAX_CLOUD_COVERAGE : undefined);
+    const { scenes } = await fetchAvailableScenes({ ...query, maxCloudCover }, query.rangeDays ?? 7);
+    await appendLog(`Copernicus Availability: scenes=${scenes.length}`);
+    const availableDates = scenes.map(s => s.datetime);
+    return { availableDates, closestDate: findClosestDate(availableDates, query.date), scenes };
+  },
+
+  async searchScenes(query) {
+    await appendLog(`Copernicus Scene Search: collection=${query.collection || 'default'}, from=${query.from}, to=${query.to}, maxCloudCover=${query.maxCloudCover}, platform=${query.platform}, tileId=${query.tileId}, sort=${query.sort ? `${query.sort.field}:${query.sort.direction}` : 'none'}`);
+    if (!query.from || !query.to) throw new ImageryError('Missing required parameters: from and to', 400);
+    return fetchAvailableScenes(query);
+  },
+
+  async fetchImage(query) {
+    const { acquisitionTime, resolution } = query;
+    const collection = getCollection(query.collection);
+    const isCustom = query.evalscript !== undefined;
+    const product = isCustom ? null : getProduct(query.product || collection.defaultProduct, collection.products);
+    const productName = product?.value || CUSTOM_PRODUCT;
+    const { composite } = query;
+    await appendLog(`Copernicus API Request: collection=${collection.id}, lat=${query.lat}, lon=${query.lon}, acquisitionTime=${acquisitionTime}, composite=${composite}, resolution=${resolution}, dim=${query.dim}, extentKm=${query.extentKm}, metersPerPixel=${query.metersPerPixel}, product=${productName}`);
+    if (composite && !collection.cloudMask) {
+      throw new ImageryError(`Invalid parameter: composites need a per-pixel cloud mask, which ${collection.label} does not have`, 400);
+    }
+    if (composite && !product) {
+      throw new ImageryError('Invalid parameter: composites render a named product, not a custom evalscript', 400);
+    }
+    // Static collections (DEM) and composites have no single acquisition to pick
+    if (!acquisitionTime && collection.catalogId && !composite) {
+      throw new ImageryError('Missing required parameter: acquisitionTime', 400);
+    }
+    const evalscript = composite && product
+      ? compositeEvalscript(product, composite)
+      : product ? product.evalscript : validateEvalscript(query.evalscript, collection.inputs);
+
+    // 1. Resolve the shared token manager up front so missing credentials fail fast
+    const tokenManager = getCopernicusTokenManager();
+
+    // 2. Bounding box and output size with the ground aspect ratio preserved
+    const { bbox, width, height, metersPerPixel } = resolveOutputGrid(query);
+    await appendLog(`Bounding Box: ${bbox.join(', ')}`);
+    await appendLog(`Output Dimensions: width=${width}, height=${height}, metersPerPixel=${metersPerPixel.toFixed(1)}`);
+
+    // 3. Fetch image for the exact acquisition time, or every acquisition in the composite window
+    const timeRange = composite
+      ? searchWindow(query, query.rangeDays ?? 7)
+      : collection.catalogId && acquisitionTime ? { from: acquisitionTime, to: acquisitionTime } : undefined;
+    await appendLog(`Time Interval: ${timeRange ? `${timeRange.from} to ${timeRange.to}` : 'none (static collection)'}`);
+    // Composites mask clouds per pixel, so whole scenes are only dropped on request;
+    // with localCloudCover the tile-wide value is not the one the user filtered on
+    const maxCloudCoverage = query.localCloudCover
+      ? undefined
+      : composite ? query.maxCloudCover : query.maxCloudCover ?? DEFAULT_MAX_CLOUD_COVERAGE;
+
+    // 4. Construct Sentinel Hub Process API request body
+    // Post-processed products need the raw PNG bytes; the GeoTIFF is written afterwards
+    const nativeTiff = query.format === 'geotiff' && !product?.postprocess;
+    const requestBody: ProcessRequest = {
+      input: {
+        // Polygon AOIs are clipped by the Process API; pixels outside are no-data
+        bounds: {
+          ...(query.aoi ? { geometry: query.aoi } : { bbox }),
+          properties: {
+            crs: 'http://www.opengis.net/def/crs/OGC/1.3/CRS84', // WGS84
+          },
+        },
+        data: [dataSource(collection, query, timeRange, maxCloudCoverage)],
+      },
+      output: {
+        width,
+        height,
+        responses: [
+          {
+            identifier: 'default',
+            // The Process API writes georeferenced TIFFs itself
+            format: {
+              type: nativeTiff ? 'image/tiff' : 'image/png',
+            },
+          },
+          // Composite side outputs: per-pixel cloud flags and the scenes used
+          ...(composite ? [
+            { identifier: 'cloud', format: { type: 'image/png' } },
+            { identifier: 'userdata', format: { type: 'application/json' } },
+          ] : []),
+        ],
+      },
+      evalscript,
+    };
+
+    // 5. Make request to Sentinel Hub Process API
+    let data: Buffer = await runProcessRequest(tokenManager, requestBody, composite ? 'application/tar' : undefined);
+    const compositeHeaders: Record<string, string> = {};
+    if (composite && timeRange) {
+      const result = await readCompositeResponse(data);
+      data = result.image;
+      await appendLog(`Copernicus Composite: method=${composite}, scenes=${result.scenes.length}, cloudPercent=${result.cloudPercent.toFixed(1)}`);
+      Object.assign(compositeHeaders, {
+        'x-composite-method': composite,
+        'x-composite-range': `${timeRange.from}/${timeRange.to}`,
+        'x-composite-scene-count': String(result.scenes.length),
+        'x-composite-scenes': result.scenes.join(','),
+        'x-composite-cloud-percent': result.cloudPercent.toFixed(1),
+      });
+    }
+    if (product?.postprocess === 'hillshade') {
+      const ground = bboxSizeMeters(bbox);
+      data = await renderHillshade(data, ground.width / width, ground.height / height);
+    }
+    return {
+      data,
+      contentType: nativeTiff ? 'image/tiff' : 'image/png',
+      acquisitionDate: composite ? timeRange?.to : acquisitionTime,
+      georef: { bbox, crs: 'EPSG:4326' as const },
+      headers: {
+        'x-copernicus-collection': collection.id,
+        'x-copernicus-product': productName,
+        'x-image-bbox': bbox.join(','),
+        'x-image-size': `${width}x${height}`,
+        ...compositeHeaders,
+      },
+    };
+  },
+
+  // Default rendering over the whole scene bbox; no cloud filter, since judging clouds is the point
+  async fetchQuicklook(scene) {
+    const collection = getCollection(scene.collection);
+    const { width, height } = outputSizeForBBox(scene.bbox, QUICKLOOK_SIZE);
+    await appendLog(`Copernicus Quicklook Request: collection=${collection.id}, datetime=${scene.datetime}, bbox=${scene.bbox.join(',')}, size=${width}x${height}`);
+    const tokenManager = getCopernicusTokenManager();
+    const { data } = await withCache('copernicus:quicklook', { collection: collection.id, datetime: scene.datetime, bbox: scene.bbox, width, height }, async () => ({
+      data: await runProcessRequest(tokenManager, {
+        input: {
+          bounds: {
+            bbox: scene.bbox,
+            properties: { crs: 'http://www.opengis.net/def/crs/OGC/1.3/CRS84' },
+          },
+          data: [dataSource(collection, {}, { from: scene.datetime, to: scene.datetime })],
+        },
+        output: { width, height, responses: [{ identifier: 'default', format: { type: 'image/jpeg' } }] },
+        evalscript: getProduct(collection.defaultProduct, collection.products).evalscript,
+      }),
+    }));
+    return { data, contentType: 'image/jpeg', acquisitionDate: scene.datetime, georef: { bbox: scene.bbox, crs: 'EPSG:4326' as const } };
+  },
+};
@@ -0,0 +1,149 @@
+import { addDays, formatISO, parseISO, subDays } from 'date-fns';
+import { appendLog } from '@/lib/logger';
+import {
+  DEFAULT_GIBS_PROJECTION,
+  GibsLayer,
+  GibsProjection,
+  TileMatrixSet,
+  expandPeriods,
+  fetchGibsCatalog,
+  gibsTileUrl,
+  resolveGibsLayer,
+  searchGibsLayers,
+} from '@/lib/gibs/capabilities';
+import { fetchTileData, outputSizeForCrsBBox, projectBBox, stitchBBox, toCrs } from '@/lib/gibs/stitch';
+import { StackLayer, composeLayerStack } from '@/lib/gibs/compose';
+import { resolveBBox } from '@/lib/copernicus/grid';
+import { ImageryError } from '../errors';
+import { findClosestDate } from '../dates';
+import { BBox } from '@/lib/geo';
+import type { ImageryProvider, ImageryQuery, TileCoord } from '../types';
+
+export const DEFAULT_GIBS_LAYER = 'MODIS_Terra_CorrectedReflectance_TrueColor';
+// Without an AOI or extent, a point query covers one tile at this zoom
+const PREVIEW_ZOOM = 8;
+
+// Bounds, in the set's CRS, of tile x/y at zoom z
+function tileBounds(set: TileMatrixSet, { z, x, y }: TileCoord): BBox {
+  const { topLeft, tileSpan } = set.matrices[z];
+  const minX = topLeft[0] + x * tileSpan[0];
+  const maxY = topLeft[1] - y * tileSpan[1];
+  return [minX, maxY - tileSpan[1], minX + tileSpan[0], maxY];
+}
+
+// Explicit tiles must exist in the layer's matrix set
+function validateTile(layer: GibsLayer, set: TileMatrixSet, { z, x, y }: TileCoord) {
+  if (!Number.isInteger(z) || z < 0 || z > layer.maxZoom) {
+    throw new ImageryError(`Invalid tile: zoom ${z} is outside 0-${layer.maxZoom} for ${layer.value} (${set.id})`, 400);
+  }
+  const { matrixWidth, matrixHeight } = set.matrices[z];
+  if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0 || x >= matrixWidth || y >= matrixHeight) {
+    throw new ImageryError(`Invalid tile: ${z}/${x}/${y} is outside the ${matrixWidth}x${matrixHeight} matrix at zoom ${z}`, 400);
+  }
+}
+
+// Footprint in CRS units: the drawn AOI or requested extent, else one preview-zoom tile centered on the point
+function queryBounds(set: TileMatrixSet, layer: GibsLayer, query: ImageryQuery): BBox {
+  if (query.aoi || query.extentKm || query.metersPerPixel) return projectBBox(set.crs, resolveBBox(query));
+  const [x, y] = toCrs(set.crs, query.lat, query.lon);
+  const [spanX, spanY] = set.matrices[Math.min(PREVIEW_ZOOM, layer.maxZoom)].tileSpan;
+  return [x - spanX / 2, y - spanY / 2, x + spanX / 2, y + spanY / 2];
+}
+
+// Every date in the layer's advertised time dimension
+export async function fetchAvailableDates(layer: string, projection: GibsProjection = DEFAULT_GIBS_PROJECTION): Promise<string[]> {
+  const { layer: info } = await resolveGibsLayer(layer, projection);
+  const dates = expandPeriods(info.periods);
+  await appendLog(`GIBS AVAILABLE DATES: layer=${layer}, count=${dates.length}`);
+  return dates;
+}
+
+async function fetchTile(layer: GibsLayer, date: string, tile: TileCoord) {
+  const url = gibsTileUrl(layer, date, tile.z, tile.x, tile.y);
+  await appendLog(`GIBS TILE URL: ${url}`);
+  return fetchTileData(url, date);
+}
+
+export const gibsProvider: ImageryProvider = {
+  id: 'gibs',
+
+  describe() {
+    return {
+      id: 'gibs',
+      label: 'NASA GIBS',
+      description: 'Daily global WMTS mosaics from NASA EOSDIS GIBS',
+      requiresScene: false,
+      supportsDim: false,
+      supportsLayers: true,
+      defaultLayer: DEFAULT_GIBS_LAYER,
+      supportsLayerStack: true,
+      supportsTiles: true,
+      supportsGeoTiff: true,
+      resolutions: [256, 512, 1024, 2048],
+      credentials: 'none',
+    };
+  },
+
+  // Listing leaves out the raw time periods and URL templates; layer-metadata has them
+  async listLayers(search) {
+    return searchGibsLayers((await fetchGibsCatalog()).layers, search).map(({ periods, template, ...layer }) => layer);
+  },
+
+  // Dates within ±rangeDays; the closest date falls back to the whole record for sparse layers
+  async searchAvailability(query) {
+    const layer = query.layer || DEFAULT_GIBS_LAYER;
+    const allDates = await fetchAvailableDates(layer, query.crs);
+    const rangeDays = query.rangeDays ?? 7;
+    const target = parseISO(query.date);
+    const from = formatISO(subDays(target, rangeDays), { representation: 'date' });
+    const to = formatISO(addDays(target, rangeDays), { representation: 'date' });
+    const availableDates = allDates.filter(d => d >= from && d <= to);
+    return { availableDates, closestDate: findClosestDate(availableDates.length > 0 ? availableDates : allDates, query.date) };
+  },
+
+  async fetchImage(query: ImageryQuery) {
+    const projection = query.crs || DEFAULT_GIBS_PROJECTION;
+    const stack = query.layers?.length ? query.layers : null;
+    const { layer, matrixSet } = await resolveGibsLayer(stack ? stack[0].layer : query.layer || DEFAULT_GIBS_LAYER, projection);
+    const { resolution } = query;
+    const date = stack?.[0].date || query.date;
+    if (query.tile) validateTile(layer, matrixSet, query.tile);
+    const layerNames = stack ? stack.map(e => e.layer).join(',') : layer.value;
+    await appendLog(`GIBS API REQUEST: layer=${layerNames}, date=${date}, crs=${projection}, matrixSet=${matrixSet.id}, tile=${query.tile ? `${query.tile.z}/${query.tile.x}/${query.tile.y}` : 'none'}, resolution=${resolution}`);
+
+    // Report the closest advertised date of the (base) layer; explicit tile requests skip the lookup
+    const acquisitionDate = query.tile ? date : findClosestDate(expandPeriods(layer.periods), date) || date;
+    const headers: Record<string, string> = { 'x-gibs-layer': layerNames, 'x-gibs-date': date, 'x-gibs-crs': projection };
+
+    // A single-layer tile at its native size is passed through as published
+    if (query.tile && !stack && resolution <= matrixSet.matrices[query.tile.z].tileWidth) {
+      const data = await fetchTile(layer, date, query.tile);
+      const georef = { bbox: tileBounds(matrixSet, query.tile), crs: projection };
+      return { data, contentType: layer.format || 'image/jpeg', acquisitionDate, headers, georef };
+    }
+
+    // Anything else is an exact bbox stitched from the covering tiles
+    const bbox = query.tile ? tileBounds(matrixSet, query.tile) : queryBounds(matrixSet, layer, query);
+    const size = query.tile ? { width: resolution, height: resolution } : outputSizeForCrsBBox(bbox, resolution);
+    headers['x-image-bbox'] = bbox.join(',');
+    const georef = { bbox, crs: projection };
+
+    // Layer stacks share the bbox and grid; each layer picks its own zoom
+    if (stack) {
+      const layers: StackLayer[] = [{ layer, matrixSet, date, opacity: stack[0].opacity ?? 1 }];
+      for (const entry of stack.slice(1)) {
+        const resolved = await resolveGibsLayer(entry.layer, projection);
+        layers.push({ ...resolved, date: entry.date || query.date, opacity: entry.opacity ?? 1 });
+      }
+      const composed = await composeLayerStack(layers, bbox, size.width, size.height);
+      if (composed.missingTiles.length > 0) headers['x-gibs-missing-tiles'] = composed.missingTiles.join(',');
+      return { data: composed.data, contentType: composed.contentType, acquisitionDate, headers, georef };
+    }
+
+    const stitched = await stitchBBox(layer, matrixSet, date, bbox, size.width, size.height);
+    await appendLog(`GIBS STITCHED IMAGE: ${stitched.width}x${stitched.height}, z=${stitched.zoom}, missing=${stitched.missingTiles.length}`);
+    headers['x-gibs-zoom'] = String(stitched.zoom);
+    if (stitched.missingTiles.length > 0) headers['x-gibs-missing-tiles'] = stitched.missingTiles.join(',');
+    return { data: stitched.data, contentType: stitched.contentType, acquisitionDate, headers, georef };
+  },
+};
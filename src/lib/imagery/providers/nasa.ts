@@ -0,0 +1,117 @@
+import { subDays, addDays, formatISO } from 'date-fns';
+import { appendLog, logError, truncate } from '@/lib/logger';
+import { withJsonCache } from '@/lib/cache';
+import { ImageryError, UpstreamError } from '../errors';
+import { upstreamFetch } from '@/lib/upstream';
+import { findClosestDate } from '../dates';
+import { bboxCenter, bboxFromCenterDegrees, bboxOfPolygon } from '@/lib/geo';
+import type { AvailabilityResult, ImageryProvider, ImageryQuery } from '../types';
+
+const NASA_API_KEY = process.env.NASA_API_KEY;
+const NASA_EARTH_URL = 'https://api.nasa.gov/planetary/earth';
+
+// NASA only takes a center and a square `dim`; cover a drawn AOI with its bbox
+function withCoveringBox(query: ImageryQuery): ImageryQuery {
+  if (!query.aoi) return query;
+  const bbox = bboxOfPolygon(query.aoi);
+  const { lat, lon } = bboxCenter(bbox);
+  return { ...query, lat, lon, dim: Math.max(bbox[2] - bbox[0], bbox[3] - bbox[1]) };
+}
+
+// Query the assets API for acquisition dates within ±rangeDays (do NOT send resolution)
+async function fetchAssetDates(query: ImageryQuery, rangeDays = 7): Promise<string[]> {
+  const dateObj = new Date(query.date);
+  const begin = formatISO(subDays(dateObj, rangeDays), { representation: 'date' });
+  const end = formatISO(addDays(dateObj, rangeDays), { representation: 'date' });
+  const assetsUrl = `${NASA_EARTH_URL}/assets?lon=${query.lon}&lat=${query.lat}&begin=${begin}&end=${end}&dim=${query.dim}&api_key=${NASA_API_KEY}`;
+  await appendLog(`NASA Assets ±${rangeDays} URL: ${assetsUrl}`);
+  try {
+    // Only successful lookups are cached; errors fall through to an empty list
+    return await withJsonCache('nasa:assets', { lon: query.lon, lat: query.lat, begin, end, dim: query.dim }, async () => {
+      const assetsStart = Date.now();
+      const assetsRes = await upstreamFetch('nasa', assetsUrl);
+      const assetsBody = await assetsRes.text();
+      await appendLog(`NASA Assets Response: status=${assetsRes.status}, body=${truncate(assetsBody)}`);
+      await appendLog(`NASA Assets Request Time: ${Date.now() - assetsStart}ms`);
+      if (!assetsRes.ok) throw new Error(`status=${assetsRes.status}`);
+      const assetsJson = JSON.parse(assetsBody || '{}');
+      return (assetsJson.results || []).map((r: any) => r.date) as string[];
+    });
+  } catch (err) {
+    await logError(`NASA Assets Fetch Error: ${err}`);
+    // Throttling and an open circuit would hit /imagery too; say so instead of "no imagery"
+    if (err instanceof UpstreamError && (err.code === 'UPSTREAM_RATE_LIMITED' || err.code === 'UPSTREAM_UNAVAILABLE')) throw err;
+    return [];
+  }
+}
+
+export const nasaProvider: ImageryProvider = {
+  id: 'nasa',
+
+  describe() {
+    return {
+      id: 'nasa',
+      label: 'NASA',
+      description: 'Landsat 8 imagery from the NASA Earth API',
+      requiresScene: false,
+      supportsDim: true,
+      supportsLayers: false,
+      supportsTiles: false,
+      supportsGeoTiff: true,
+      resolutions: [512, 1024, 2048],
+      credentials: NASA_API_KEY ? 'configured' : 'missing',
+    };
+  },
+
+  async listLayers() {
+    return [];
+  },
+
+  async searchAvailability(rawQuery): Promise<AvailabilityResult> {
+    const query = withCoveringBox(rawQuery);
+    await appendLog(`NASA AVAILABILITY REQUEST: lat=${query.lat}, lon=${query.lon}, date=${query.date}, dim=${query.dim}`);
+    const availableDates = await fetchAssetDates(query, query.rangeDays ?? 7);
+    await appendLog(`NASA Available Dates: ${availableDates.join(', ')}`);
+    return { availableDates, closestDate: findClosestDate(availableDates, query.date) };
+  },
+
+  async fetchImage(rawQuery) {
+    const query = withCoveringBox(rawQuery);
+    const startTime = Date.now();
+    await appendLog(`NASA API REQUEST: lat=${query.lat}, lon=${query.lon}, date=${query.date}, resolution=${query.resolution}, dim=${query.dim}`);
+    await appendLog(`NASA API KEY: ${NASA_API_KEY ? 'Provided' : 'Missing/Undefined'}`);
+
+    const { availableDates, closestDate } = await this.searchAvailability(query);
+
+    // Try /imagery even when /assets errored or listed nothing; it is often more lenient
+    const imageUrl = `${NASA_EARTH_URL}/imagery?lon=${query.lon}&lat=${query.lat}&date=${query.date}&dim=${query.dim}&api_key=${NASA_API_KEY}`;
+    await appendLog(`NASA Image URL: ${imageUrl}`);
+    const imageStart = Date.now();
+    try {
+      const imageRes = await upstreamFetch('nasa', imageUrl);
+      await appendLog(`NASA Image Response: status=${imageRes.status}`);
+      await appendLog(`NASA Image Request Time: ${Date.now() - imageStart}ms`);
+      if (imageRes.ok) {
+        const data = Buffer.from(await imageRes.arrayBuffer());
+        await appendLog(`NASA Image Fetch Success: ${data.length} bytes`);
+        await appendLog(`NASA API Total Time: ${Date.now() - startTime}ms`);
+        return {
+          data,
+          contentType: 'image/png',
+          acquisitionDate: query.date,
+          headers: { 'x-nasa-available-dates': availableDates.join(',') },
+          // NASA renders a dim x dim degree square around the point
+          georef: { bbox: bboxFromCenterDegrees(query.lat, query.lon, query.dim), crs: 'EPSG:4326' as const },
+        };
+      }
+    } catch (err) {
+      await logError(`NASA Image Fetch Error: ${err}`);
+      if (err instanceof UpstreamError) throw err;
+    }
+
+    // If not, return the list and closest date (if any)
+    await appendLog(`NASA No imagery for requested date. Available dates: ${availableDates.join(', ')}`);
+    await appendLog(`NASA API Total Time: ${Date.now() - startTime}ms`);
+    throw new ImageryError('No imagery available for this date/location.', 404, { availableDates, closestDate });
+  },
+};
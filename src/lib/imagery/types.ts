@@ -0,0 +1,206 @@
+import type { BBox, PolygonGeometry } from '@/lib/geo';
+import type { GeoCrs, Georeference } from '@/lib/geotiff';
+
+export type ProviderId = 'nasa' | 'copernicus' | 'gibs';
+
+export interface TileCoord {
+  z: number;
+  x: number;
+  y: number;
+}
+
+// One layer of a composited stack
+export interface LayerStackEntry {
+  layer: string;
+  // 0-1, default 1
+  opacity?: number;
+  // Overrides the query date for this layer
+  date?: string;
+}
+
+// Everything a provider needs to locate and render an image
+export interface ImageryQuery {
+  lat: number;
+  lon: number;
+  // Field of view in degrees (legacy square box)
+  dim: number;
+  // Ground extent in km around lat/lon; takes precedence over dim
+  extentKm?: number;
+  // Target ground resolution; output size follows from the extent
+  metersPerPixel?: number;
+  // Drawn area of interest; providers without polygon support use its covering bbox
+  aoi?: PolygonGeometry;
+  date: string;
+  time?: string;
+  timezone?: string;
+  // Half-width of the availability search window around `date` (default 7)
+  rangeDays?: number;
+  // Explicit scene search window (YYYY-MM-DD or ISO); replaces date ± rangeDays
+  from?: string;
+  to?: string;
+  // Server-side scene filters (Copernicus)
+  maxCloudCover?: number;
+  platform?: string;
+  // MGRS tile (Sentinel-2, e.g. '33TUL') or WRS-2 path/row (Landsat, e.g. '190031')
+  tileId?: string;
+  sort?: SceneSort;
+  // Upper bound on scenes collected across catalog pages
+  maxResults?: number;
+  // Per-pixel cloud-free composite over from/to (or date ± rangeDays) instead of one scene (Copernicus)
+  composite?: 'median' | 'least-cloudy';
+  // Scene cloud cover measured over the AOI instead of the whole tile; maxCloudCover
+  // and cloudCover sorting then use it (Copernicus)
+  localCloudCover?: boolean;
+  resolution: number;
+  // Exact scene time (Copernicus)
+  acquisitionTime?: string;
+  // Layer identifier (GIBS)
+  layer?: string;
+  // Layers composited bottom first; overrides `layer` (GIBS)
+  layers?: LayerStackEntry[];
+  // Explicit tile instead of lat/lon (GIBS)
+  tile?: TileCoord;
+  // Tile grid to read from: Web Mercator or geographic (GIBS, default EPSG:3857)
+  crs?: GeoCrs;
+  // Data collection, e.g. 'sentinel-1-grd' (Copernicus, default sentinel-2-l2a)
+  collection?: string;
+  // Sentinel-1 scene filters (Copernicus)
+  orbitDirection?: 'ASCENDING' | 'DESCENDING';
+  polarization?: 'DV' | 'SV' | 'DH' | 'SH';
+  // Named rendering, e.g. 'ndvi' (Copernicus)
+  product?: string;
+  // User-supplied evalscript; overrides `product` (Copernicus)
+  evalscript?: string;
+  // 'geotiff' returns the image with its bbox and CRS embedded
+  format?: 'image' | 'geotiff';
+}
+
+export interface SceneSort {
+  field: 'datetime' | 'cloudCover';
+  direction: 'asc' | 'desc';
+}
+
+export interface Scene {
+  id: string;
+  datetime: string;
+  cloudCover?: number;
+  platform?: string;
+  instruments?: string[];
+  bbox?: number[];
+  // Actual data footprint, when the catalog has one
+  footprint?: PolygonGeometry;
+  // Cloudy share of the AOI (0-100), when requested with localCloudCover
+  localCloudCover?: number;
+  // SAR acquisition geometry (Sentinel-1)
+  orbitDirection?: string;
+  polarization?: string;
+}
+
+export interface AvailabilityResult {
+  availableDates: string[];
+  closestDate: string | null;
+  scenes?: Scene[];
+}
+
+export interface SceneSearchResult {
+  scenes: Scene[];
+  // Scenes matching the filters; may exceed scenes.length when truncated,
+  // null if the catalog did not report a count for a truncated search
+  total: number | null;
+  // Stopped at maxResults before the last catalog page
+  truncated: boolean;
+}
+
+export interface ImageResult {
+  data: Buffer;
+  contentType: string;
+  // Date of the imagery actually returned, if known
+  acquisitionDate?: string | null;
+  // Provider-specific response headers
+  headers?: Record<string, string>;
+  // Ground footprint of the returned pixels, used for GeoTIFF export
+  georef?: Georeference;
+  // Suggested download name
+  filename?: string;
+}
+
+export interface LayerInfo {
+  label: string;
+  value: string;
+  description?: string;
+  timeRange?: { start: string; end: string | null };
+  legendUrl?: string;
+  // Deepest zoom level published for tiled layers
+  maxZoom?: number;
+  // MIME type of the published tiles
+  format?: string;
+}
+
+export interface ProductInfo {
+  label: string;
+  value: string;
+  description: string;
+}
+
+export type CollectionFilter = 'orbitDirection' | 'polarization';
+
+// A data collection selectable via `collection`, with its own products and filters
+export interface CollectionInfo {
+  label: string;
+  value: string;
+  description: string;
+  products: ProductInfo[];
+  defaultProduct: string;
+  filters: CollectionFilter[];
+  // Scenes report cloud cover and images are cloud-filtered
+  cloudCover: boolean;
+  // No acquisitions; any date renders the same data
+  static: boolean;
+  // Format of `tileId` for collections that support it
+  tileIdHint?: string;
+  // Per-pixel cloud mask: `composite` rendering and `localCloudCover` are available
+  cloudMask: boolean;
+  // Index names accepted by /api/statistics
+  indices: string[];
+}
+
+export interface ProviderCapabilities {
+  id: ProviderId;
+  label: string;
+  description: string;
+  // fetchImage needs a scene picked from searchAvailability
+  requiresScene: boolean;
+  // Field of view (dim) is honored
+  supportsDim: boolean;
+  supportsLayers: boolean;
+  // Layer used when `layer` is omitted
+  defaultLayer?: string;
+  // Composites an ordered `layers` stack with per-layer opacity
+  supportsLayerStack?: boolean;
+  supportsTiles: boolean;
+  supportsGeoTiff: boolean;
+  resolutions: number[];
+  // Named renderings selectable via `product` (of the default collection)
+  products?: ProductInfo[];
+  collections?: CollectionInfo[];
+  // Accepts a POSTed custom evalscript
+  supportsCustomScripts?: boolean;
+  // Small per-scene previews via fetchQuicklook
+  supportsQuicklooks?: boolean;
+  // Paginated, filterable scene search via searchScenes
+  supportsSceneSearch?: boolean;
+  credentials: 'configured' | 'missing' | 'none';
+}
+
+export interface ImageryProvider {
+  id: ProviderId;
+  describe(): ProviderCapabilities;
+  // Optional keyword filter for providers with large catalogs
+  listLayers(search?: string | null): Promise<LayerInfo[]>;
+  searchAvailability(query: ImageryQuery): Promise<AvailabilityResult>;
+  // All scenes in an arbitrary date range, filtered and sorted upstream (scene-based providers)
+  searchScenes?(query: ImageryQuery): Promise<SceneSearchResult>;
+  fetchImage(query: ImageryQuery): Promise<ImageResult>;
+  // Low-resolution preview of a whole scene (scene-based providers)
+  fetchQuicklook?(scene: { datetime: string; bbox: BBox; collection?: string }): Promise<ImageResult>;
+}
@@ -0,0 +1,310 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { appendLog, logError, logWarn } from '@/lib/logger';
+import { writeZipFile } from '@/lib/zip';
+import { getProvider, ImageryError } from '@/lib/imagery';
+import { parseImageryQuery } from '@/lib/imagery/http';
+import { renderImage } from '@/lib/imagery/output';
+import type { ImageryProvider, ImageryQuery } from '@/lib/imagery/types';
+
+const JOBS_DIR = path.join(process.cwd(), 'output', 'jobs');
+export const MAX_JOB_ITEMS = 200;
+const JOB_CONCURRENCY = Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '3', 10) || 3);
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 2000;
+const ZIP_NAME = 'results.zip';
+// Finished jobs and their files are kept this long; older ones are removed when a new job is created
+const JOB_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type JobItemStatus = 'pending' | 'running' | 'done' | 'failed';
+
+// Item parameters use the /api/imagery query-string names; `aoi` may be a GeoJSON object
+export type JobItemParams = Record<string, string | number | boolean | object>;
+
+export interface JobItem {
+  index: number;
+  provider: string;
+  params: Record<string, string>;
+  status: JobItemStatus;
+  attempts: number;
+  file?: string;
+  acquisitionDate?: string;
+  error?: string;
+}
+
+export interface Job {
+  id: string;
+  name?: string;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  total: number;
+  done: number;
+  failed: number;
+  items: JobItem[];
+  // Set once every item has finished and at least one succeeded
+  zip?: string;
+}
+
+interface JobsState {
+  // Jobs being worked on in this process, by id
+  running: Map<string, Promise<void>>;
+  // Serialized job.json writes, by id
+  saving: Map<string, Promise<void>>;
+  resumed: Promise<void> | null;
+}
+
+// Each route bundle gets its own copy of this module; keep one state per process
+const state: JobsState = (globalThis as any).__imageryJobs ||= {
+  running: new Map(),
+  saving: new Map(),
+  resumed: null,
+};
+
+const jobDir = (id: string) => path.join(JOBS_DIR, id);
+const jobPath = (id: string) => path.join(jobDir(id), 'job.json');
+const isJobId = (id: string) => /^[0-9a-f-]{36}$/.test(id);
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/tiff': 'tif',
+};
+
+// Write via a temp file so a crash never leaves half a job.json; writes queue per job
+function saveJob(job: Job) {
+  job.updatedAt = new Date().toISOString();
+  const previous = state.saving.get(job.id) || Promise.resolve();
+  const next = previous.then(async () => {
+    const tmp = `${jobPath(job.id)}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(job, null, 2));
+    await fs.rename(tmp, jobPath(job.id));
+  });
+  state.saving.set(job.id, next.catch(() => undefined));
+  return next;
+}
+
+export async function readJob(id: string): Promise<Job | null> {
+  if (!isJobId(id)) return null;
+  try {
+    return JSON.parse(await fs.readFile(jobPath(id), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+// Parse every item up front so a bad entry rejects the whole job with a 400
+function toItemQuery(item: JobItem): { provider: ImageryProvider; query: ImageryQuery } {
+  const provider = getProvider(item.provider);
+  if (!provider) throw new ImageryError(`Unknown provider: ${item.provider}`, 400);
+  return { provider, query: parseImageryQuery(new URLSearchParams(item.params)) };
+}
+
+function normalizeItem(raw: unknown, defaults: JobItemParams, index: number): JobItem {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ImageryError(`Invalid job item ${index + 1}: expected an object of imagery parameters`, 400);
+  }
+  const merged: JobItemParams = { ...defaults, ...(raw as JobItemParams) };
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(merged)) {
+    if (value === null || value === undefined) continue;
+    params[key] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+  const provider = params.provider || 'copernicus';
+  delete params.provider;
+  delete params.action;
+  const item: JobItem = { index, provider, params, status: 'pending', attempts: 0 };
+  try {
+    toItemQuery(item);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ImageryError(`Invalid job item ${index + 1}: ${message}`, 400);
+  }
+  return item;
+}
+
+// Drop finished jobs past their TTL, and directories a crash left without a job.json
+async function removeExpiredJobs() {
+  const ids = await fs.readdir(JOBS_DIR).catch(() => [] as string[]);
+  const cutoff = Date.now() - JOB_TTL_MS;
+  for (const id of ids) {
+    if (state.running.has(id)) continue;
+    const job = await readJob(id);
+    const finished = job ? job.status === 'completed' || job.status === 'failed' : true;
+    const updated = job ? Date.parse(job.updatedAt) : (await fs.stat(jobDir(id)).catch(() => null))?.mtimeMs;
+    if (finished && updated !== undefined && updated < cutoff) {
+      await fs.rm(jobDir(id), { recursive: true, force: true });
+      await appendLog(`JOB EXPIRED: id=${id}`);
+    }
+  }
+}
+
+// Validate and persist a job, then start working on it in the background
+export async function createJob(body: any): Promise<Job> {
+  const items = body?.items;
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new ImageryError('Missing required body field: items', 400);
+  }
+  if (items.length > MAX_JOB_ITEMS) {
+    throw new ImageryError(`A job can have at most ${MAX_JOB_ITEMS} items; got ${items.length}`, 400);
+  }
+  const defaults = body.defaults && typeof body.defaults === 'object' ? body.defaults : {};
+  await removeExpiredJobs();
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: crypto.randomUUID(),
+    ...(typeof body.name === 'string' && body.name ? { name: body.name.slice(0, 200) } : {}),
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    total: items.length,
+    done: 0,
+    failed: 0,
+    items: items.map((raw: unknown, i: number) => normalizeItem(raw, defaults, i)),
+  };
+  await fs.mkdir(jobDir(job.id), { recursive: true });
+  await saveJob(job);
+  await appendLog(`JOB CREATED: id=${job.id}, items=${job.total}`);
+  startJob(job);
+  return job;
+}
+
+// Scene-based providers need a scene: take the closest one to the item's date
+async function resolveQuery(provider: ImageryProvider, query: ImageryQuery) {
+  if (!provider.describe().requiresScene || query.acquisitionTime || query.composite) return query;
+  const { closestDate } = await provider.searchAvailability(query);
+  if (!closestDate) throw new ImageryError(`No scene found near ${query.date}`, 404);
+  return { ...query, acquisitionTime: closestDate };
+}
+
+// Upstream hiccups are worth another try; bad parameters and missing scenes are not
+function isRetryable(error: unknown) {
+  if (!(error instanceof ImageryError)) return true;
+  return error.status === 429 || error.status >= 500;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function runItem(job: Job, item: JobItem) {
+  const { provider, query } = toItemQuery(item);
+  while (item.attempts < MAX_ATTEMPTS) {
+    item.attempts++;
+    try {
+      const result = await renderImage(provider, await resolveQuery(provider, query));
+      const day = (result.acquisitionDate || query.date).slice(0, 10).replace(/[^0-9-]/g, '');
+      const extension = EXTENSIONS[result.contentType] || 'bin';
+      const file = `${String(item.index + 1).padStart(3, '0')}_${provider.id}_${day}.${extension}`;
+      await fs.writeFile(path.join(jobDir(job.id), file), result.data);
+      Object.assign(item, { status: 'done', file, acquisitionDate: result.acquisitionDate, error: undefined });
+      return;
+    } catch (error) {
+      item.error = error instanceof Error ? error.message : String(error);
+      await logError(`JOB ITEM ERROR: id=${job.id}, item=${item.index + 1}, attempt=${item.attempts}, ${item.error}`);
+      if (!isRetryable(error)) break;
+      if (item.attempts < MAX_ATTEMPTS) {
+        await saveJob(job);
+        // Exponential backoff with jitter so parallel items don't retry in lockstep
+        await sleep(RETRY_BASE_MS * 2 ** (item.attempts - 1) * (0.5 + Math.random()));
+      }
+    }
+  }
+  item.status = 'failed';
+}
+
+async function runJob(job: Job) {
+  job.status = 'running';
+  // Items cut off by a restart start over
+  for (const item of job.items) {
+    if (item.status === 'running') Object.assign(item, { status: 'pending', attempts: 0 });
+  }
+  await saveJob(job);
+  await appendLog(`JOB START: id=${job.id}, pending=${job.items.filter(i => i.status === 'pending').length}/${job.total}`);
+
+  const queue = job.items.filter(item => item.status === 'pending');
+  const worker = async () => {
+    for (let item = queue.shift(); item; item = queue.shift()) {
+      item.status = 'running';
+      await saveJob(job);
+      await runItem(job, item);
+      job.done = job.items.filter(i => i.status === 'done').length;
+      job.failed = job.items.filter(i => i.status === 'failed').length;
+      await saveJob(job);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(JOB_CONCURRENCY, queue.length) }, worker));
+
+  const finished = job.items.filter(item => item.status === 'done' && item.file);
+  if (finished.length > 0) {
+    const entries = finished.map(item => ({ name: item.file as string, path: path.join(jobDir(job.id), item.file as string) }));
+    try {
+      await writeZipFile(path.join(jobDir(job.id), ZIP_NAME), entries);
+      job.zip = ZIP_NAME;
+    } catch (error) {
+      // The item files are still downloadable one by one
+      await logWarn(`JOB ZIP FAILED: id=${job.id}, ${error instanceof Error ? error.message : error}`);
+      await fs.rm(path.join(jobDir(job.id), ZIP_NAME), { force: true });
+    }
+  }
+  job.status = finished.length > 0 ? 'completed' : 'failed';
+  await saveJob(job);
+  const summary = `JOB COMPLETE: id=${job.id}, status=${job.status}, done=${job.done}, failed=${job.failed}`;
+  await (job.status === 'failed' ? logWarn(summary) : appendLog(summary));
+}
+
+function startJob(job: Job) {
+  if (state.running.has(job.id)) return;
+  const run = runJob(job)
+    .catch(async error => {
+      await logError(`JOB ERROR: id=${job.id}, ${error instanceof Error ? error.message : error}`);
+      job.status = 'failed';
+      await saveJob(job).catch(() => undefined);
+    })
+    .finally(() => state.running.delete(job.id));
+  state.running.set(job.id, run);
+}
+
+// Pick up jobs a previous server process left queued or running; safe to call repeatedly
+export function resumeJobs() {
+  state.resumed ||= (async () => {
+    let ids: string[] = [];
+    try {
+      ids = await fs.readdir(JOBS_DIR);
+    } catch {
+      return;
+    }
+    for (const id of ids) {
+      const job = await readJob(id);
+      if (job && (job.status === 'queued' || job.status === 'running')) {
+        await appendLog(`JOB RESUME: id=${job.id}`);
+        startJob(job);
+      }
+    }
+  })();
+  return state.resumed;
+}
+
+// Newest first, without the per-item details
+export async function listJobs() {
+  let ids: string[] = [];
+  try {
+    ids = await fs.readdir(JOBS_DIR);
+  } catch {
+    return [];
+  }
+  const jobs = (await Promise.all(ids.map(readJob))).filter((job): job is Job => job !== null);
+  return jobs
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(({ items, ...summary }) => summary);
+}
+
+// Stored output of a job: an item file or the ZIP; null if the id or file is unknown
+export async function readJobFile(id: string, file: string) {
+  if (!isJobId(id) || !/^(\d{3}_[a-z0-9-]+_[0-9-]+\.(png|jpg|tif|bin)|results\.zip)$/.test(file)) return null;
+  try {
+    return await fs.readFile(path.join(jobDir(id), file));
+  } catch {
+    return null;
+  }
+}
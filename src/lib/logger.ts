@@ -0,0 +1,148 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+
+const LOG_DIR = process.env.LOG_DIR || path.join(process.cwd(), 'logs');
+const LOG_FILE = 'api-requests.log';
+const logFilePath = path.join(LOG_DIR, LOG_FILE);
+// Rotate when the file would pass this size, or on the first write of a new UTC day
+const LOG_MAX_BYTES = parseFloat(process.env.LOG_MAX_MB || '10') * 1024 * 1024;
+// Rotated files kept next to the live one
+const LOG_MAX_FILES = parseInt(process.env.LOG_MAX_FILES || '7', 10);
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const MIN_LEVEL = LEVELS[(process.env.LOG_LEVEL as LogLevel) || 'info'] ?? LEVELS.info;
+
+// Extra fields on a log line; `level` defaults to info
+export type LogFields = { level?: LogLevel } & Record<string, unknown>;
+
+export interface RequestContext {
+  requestId: string;
+  // The client action (logUserAction) that triggered this request, if the client sent one
+  actionId?: string;
+}
+
+interface LoggerState {
+  context: AsyncLocalStorage<RequestContext>;
+  // Writes queue so lines stay in order and rotation never races an append
+  queue: Promise<void>;
+  file: { size: number; day: string } | null;
+}
+
+// Each route bundle gets its own copy of this module; keep one state per process
+const state: LoggerState = (globalThis as any).__imageryLogger ||= {
+  context: new AsyncLocalStorage<RequestContext>(),
+  queue: Promise.resolve(),
+  file: null,
+};
+
+const SECRET_KEY = /(secret|token|password|api_?key|authorization|cookie)/i;
+const REDACTIONS: [RegExp, string][] = [
+  [/\b(api_key|apikey|client_secret|access_token|refresh_token|token|password)=([^&\s,"']+)/gi, '$1=[REDACTED]'],
+  [/"(api_key|client_secret|access_token|refresh_token|password)"\s*:\s*"[^"]*"/gi, '"$1":"[REDACTED]"'],
+  [/\bBearer\s+[A-Za-z0-9._~+/-]+=*/g, 'Bearer [REDACTED]'],
+];
+
+export function redact(text: string) {
+  return REDACTIONS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+function redactFields(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redact(value);
+  if (value instanceof Error) return redact(value.message);
+  if (!value || typeof value !== 'object' || depth > 4) return value;
+  if (Array.isArray(value)) return value.map(item => redactFields(item, depth + 1));
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, SECRET_KEY.test(key) ? '[REDACTED]' : redactFields(item, depth + 1)]));
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+async function rotate() {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  await fs.rename(logFilePath, path.join(LOG_DIR, `api-requests.${stamp}.log`)).catch(() => undefined);
+  const rotated = (await fs.readdir(LOG_DIR)).filter(name => /^api-requests\..+\.log$/.test(name)).sort();
+  await Promise.all(rotated.slice(0, Math.max(0, rotated.length - LOG_MAX_FILES)).map(name => fs.rm(path.join(LOG_DIR, name), { force: true })));
+}
+
+async function writeLine(line: string) {
+  if (!state.file) {
+    await fs.mkdir(LOG_DIR, { recursive: true });
+    const stat = await fs.stat(logFilePath).catch(() => null);
+    state.file = { size: stat?.size ?? 0, day: stat ? stat.mtime.toISOString().slice(0, 10) : today() };
+  }
+  const bytes = Buffer.byteLength(line);
+  if (state.file.size > 0 && (state.file.size + bytes > LOG_MAX_BYTES || state.file.day !== today())) {
+    await rotate();
+    state.file = { size: 0, day: today() };
+  }
+  await fs.appendFile(logFilePath, line);
+  state.file.size += bytes;
+}
+
+// Append one JSON line to the API log, tagged with the current request and action ids.
+// Secrets in the message and fields (api_key=, tokens, client secrets) are redacted.
+export async function appendLog(message: string, fields: LogFields = {}) {
+  const { level = 'info', ...rest } = fields;
+  if (LEVELS[level] < MIN_LEVEL) return;
+  const context = state.context.getStore();
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    ...(context ? { requestId: context.requestId, ...(context.actionId ? { actionId: context.actionId } : {}) } : {}),
+    msg: redact(message),
+    ...(redactFields(rest) as Record<string, unknown>),
+  }) + '\n';
+  const write = state.queue.then(() => writeLine(line));
+  state.queue = write.catch(error => {
+    // The queue must keep going; re-check the directory on the next write
+    state.file = null;
+    console.error('Failed to write to log file:', error);
+  });
+  return state.queue;
+}
+
+export const logWarn = (message: string, fields: LogFields = {}) => appendLog(message, { ...fields, level: 'warn' });
+export const logError = (message: string, fields: LogFields = {}) => appendLog(message, { ...fields, level: 'error' });
+
+export function currentRequestContext() {
+  return state.context.getStore();
+}
+
+// Ids from the client are echoed back, so keep them short and printable
+const clientId = (value: string | null) => (value && /^[A-Za-z0-9._-]{1,64}$/.test(value) ? value : undefined);
+
+// Wrap a route handler: take the correlation id from `x-request-id` (or make one),
+// the triggering client action from `x-action-id`, run the handler with both attached
+// to every log line, then log the status and duration and echo the id back.
+export function withRequestLog<A extends unknown[]>(handler: (request: Request, ...rest: A) => Promise<Response>) {
+  return async (request: Request, ...rest: A): Promise<Response> => {
+    const context: RequestContext = {
+      requestId: clientId(request.headers.get('x-request-id')) || crypto.randomUUID(),
+      actionId: clientId(request.headers.get('x-action-id')),
+    };
+    return state.context.run(context, async () => {
+      const start = Date.now();
+      const url = new URL(request.url);
+      const fields = { method: request.method, path: url.pathname, query: truncate(url.search, 300) };
+      try {
+        const response = await handler(request, ...rest);
+        await appendLog('request', { ...fields, level: response.status >= 500 ? 'error' : response.status >= 400 ? 'warn' : 'info', status: response.status, durationMs: Date.now() - start });
+        try {
+          response.headers.set('x-request-id', context.requestId);
+        } catch {
+          // Responses passed through from fetch() have immutable headers
+        }
+        return response;
+      } catch (error) {
+        await logError('request failed', { ...fields, durationMs: Date.now() - start, error: error instanceof Error ? error.message : String(error) });
+        throw error;
+      }
+    });
+  };
+}
+
+export function truncate(str: string, n = 500) {
+  return str.length > n ? str.slice(0, n) + '... [truncated]' : str;
+}
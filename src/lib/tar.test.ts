@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { readTar } from './tar';
+
+// One ustar header block plus the data padded to 512 bytes
+function tarEntry(name: string, data: Buffer, type = '0', prefix = '') {
+  const header = Buffer.alloc(512);
+  header.write(name, 0, 100, 'utf8');
+  header.write('0000644\0', 100);
+  header.write(data.length.toString(8).padStart(11, '0') + '\0', 124);
+  header.write(type, 156);
+  header.write('ustar\0' + '00', 257);
+  header.write(prefix, 345, 155, 'utf8');
+  // Checksum over the header with the checksum field read as spaces
+  header.fill(' ', 148, 156);
+  const sum = header.reduce((total, byte) => total + byte, 0);
+  header.write(sum.toString(8).padStart(6, '0') + '\0 ', 148);
+  return Buffer.concat([header, data, Buffer.alloc((512 - (data.length % 512)) % 512)]);
+}
+
+describe('readTar', () => {
+  it('returns regular files and skips directories and other entries', () => {
+    const tiff = Buffer.alloc(1300, 7);
+    const json = Buffer.from('{"scenes":2}');
+    const archive = Buffer.concat([
+      tarEntry('outputs/', Buffer.alloc(0), '5'),
+      tarEntry('default.tif', tiff),
+      tarEntry('PaxHeader', Buffer.from('18 path=ignored\n'), 'x'),
+      tarEntry('userdata.json', json, '0', 'outputs'),
+      Buffer.alloc(1024),
+    ]);
+
+    const entries = readTar(archive);
+    expect(entries.map(e => e.name)).toEqual(['default.tif', 'outputs/userdata.json']);
+    expect(entries[0].data.equals(tiff)).toBe(true);
+    expect(entries[1].data.toString()).toBe('{"scenes":2}');
+  });
+
+  it('stops at the end-of-archive block and tolerates a missing one', () => {
+    const file = tarEntry('a.txt', Buffer.from('a'));
+    expect(readTar(Buffer.concat([file, Buffer.alloc(1024), tarEntry('after.txt', Buffer.from('b'))])).map(e => e.name)).toEqual(['a.txt']);
+    expect(readTar(file).map(e => e.name)).toEqual(['a.txt']);
+    expect(readTar(Buffer.alloc(0))).toEqual([]);
+  });
+});
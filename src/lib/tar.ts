@@ -0,0 +1,26 @@
+export interface TarEntry {
+  name: string;
+  data: Buffer;
+}
+
+// Read the regular files of an uncompressed (ustar) archive
+export function readTar(archive: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  while (offset + 512 <= archive.length) {
+    const header = archive.subarray(offset, offset + 512);
+    // Two zero blocks end the archive; one is enough to stop
+    if (header.every(b => b === 0)) break;
+    const field = (start: number, length: number) => header.toString('utf8', start, start + length).split('\0')[0];
+    const size = parseInt(field(124, 12).trim() || '0', 8);
+    const prefix = field(345, 155);
+    const name = prefix ? `${prefix}/${field(0, 100)}` : field(0, 100);
+    const type = field(156, 1);
+    const start = offset + 512;
+    if (type === '' || type === '0') {
+      entries.push({ name, data: archive.subarray(start, start + size) });
+    }
+    offset = start + Math.ceil(size / 512) * 512;
+  }
+  return entries;
+}
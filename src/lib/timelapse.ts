@@ -0,0 +1,179 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { addDays, differenceInCalendarDays, formatISO, parseISO } from 'date-fns';
+import { appendLog, logError } from '@/lib/logger';
+import { createZip } from '@/lib/zip';
+import { ImageryError } from '@/lib/imagery/errors';
+import { fetchImageCached } from '@/lib/imagery/output';
+import type { ImageryProvider, ImageryQuery } from '@/lib/imagery/types';
+
+const TIMELAPSE_DIR = path.join(process.cwd(), 'output', 'timelapse');
+export const MAX_TIMELAPSE_FRAMES = 60;
+// Every frame is decoded at once to build the animation, so frames stay well below MAX_RESOLUTION
+export const MAX_TIMELAPSE_RESOLUTION = 1024;
+// Finished runs stay downloadable this long; older output is removed by the next run
+const TIMELAPSE_TTL_MS = 60 * 60 * 1000;
+
+export type AnimationFormat = 'gif' | 'webp';
+
+export interface TimelapseOptions {
+  startDate: string;
+  endDate: string;
+  cadenceDays: number;
+  animation: AnimationFormat;
+  frameDelayMs: number;
+}
+
+// Streamed to the client as newline-delimited JSON
+export type TimelapseEvent =
+  | { type: 'start'; total: number }
+  | { type: 'frame'; index: number; total: number; date: string; status: 'ok' | 'skipped'; acquisitionDate?: string; reason?: string }
+  | { type: 'complete'; id: string; frames: string[]; animation: string; zip: string }
+  | { type: 'error'; error: string };
+
+// Target dates from startDate to endDate every cadenceDays
+export function timelapseDates(startDate: string, endDate: string, cadenceDays: number): string[] {
+  const start = parseISO(startDate);
+  const end = parseISO(endDate);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
+    throw new ImageryError('Invalid date range: endDate must be on or after startDate', 400);
+  }
+  const total = Math.floor(differenceInCalendarDays(end, start) / cadenceDays) + 1;
+  if (total > MAX_TIMELAPSE_FRAMES) {
+    throw new ImageryError(`Timelapse would need ${total} frames; the limit is ${MAX_TIMELAPSE_FRAMES}. Use a longer cadence or shorter range.`, 400);
+  }
+  return Array.from({ length: total }, (_, i) => formatISO(addDays(start, i * cadenceDays), { representation: 'date' }));
+}
+
+// Fit the frame to width x height and stamp the acquisition date in the corner
+async function annotateFrame(image: Buffer, label: string, width: number, height: number) {
+  const boxWidth = label.length * 9 + 16;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <rect x="8" y="${height - 34}" width="${boxWidth}" height="26" rx="3" fill="black" fill-opacity="0.6"/>
+  <text x="16" y="${height - 16}" font-family="monospace" font-size="15" fill="white">${label}</text>
+</svg>`;
+  return sharp(image)
+    .resize(width, height, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 1 } })
+    .composite([{ input: Buffer.from(svg), top: 0, left: 0 }])
+    .png()
+    .toBuffer();
+}
+
+// Pick the frame's query: scene-based providers need the closest scene within half a cadence
+async function frameQuery(provider: ImageryProvider, baseQuery: ImageryQuery, date: string, cadenceDays: number) {
+  const query: ImageryQuery = { ...baseQuery, date };
+  if (!provider.describe().requiresScene) return query;
+  const { closestDate } = await provider.searchAvailability({ ...query, rangeDays: Math.max(1, Math.ceil(cadenceDays / 2)) });
+  if (!closestDate) return null;
+  return { ...query, acquisitionTime: closestDate };
+}
+
+async function removeExpiredTimelapses() {
+  const ids = await fs.readdir(TIMELAPSE_DIR).catch(() => [] as string[]);
+  const cutoff = Date.now() - TIMELAPSE_TTL_MS;
+  for (const id of ids) {
+    const stat = await fs.stat(path.join(TIMELAPSE_DIR, id)).catch(() => null);
+    if (stat && stat.mtimeMs < cutoff) await fs.rm(path.join(TIMELAPSE_DIR, id), { recursive: true, force: true });
+  }
+}
+
+// Stops quietly (no `complete` event) once `signal` aborts, e.g. when the client disconnects
+export async function createTimelapse(
+  provider: ImageryProvider,
+  baseQuery: ImageryQuery,
+  options: TimelapseOptions,
+  onEvent: (event: TimelapseEvent) => void,
+  signal?: AbortSignal,
+) {
+  const dates = timelapseDates(options.startDate, options.endDate, options.cadenceDays);
+  const id = crypto.randomUUID();
+  await removeExpiredTimelapses();
+  await appendLog(`TIMELAPSE START: id=${id}, provider=${provider.id}, frames=${dates.length}, range=${options.startDate}/${options.endDate}, cadence=${options.cadenceDays}d`);
+  onEvent({ type: 'start', total: dates.length });
+
+  const frames: { label: string; data: Buffer }[] = [];
+  const seen = new Set<string>();
+  let size: { width: number; height: number } | null = null;
+
+  for (const [index, date] of dates.entries()) {
+    if (signal?.aborted) {
+      await appendLog(`TIMELAPSE CANCELLED: id=${id}, after ${index}/${dates.length} frames`);
+      return;
+    }
+    const progress = { type: 'frame' as const, index: index + 1, total: dates.length, date };
+    try {
+      const query = await frameQuery(provider, baseQuery, date, options.cadenceDays);
+      if (!query) {
+        onEvent({ ...progress, status: 'skipped', reason: 'No scene near this date' });
+        continue;
+      }
+      const result = await fetchImageCached(provider, query);
+      const acquisitionDate = (result.acquisitionDate || date).slice(0, 10);
+      // Neighbouring steps can resolve to the same acquisition
+      if (seen.has(acquisitionDate)) {
+        onEvent({ ...progress, status: 'skipped', acquisitionDate, reason: 'Duplicate acquisition' });
+        continue;
+      }
+      seen.add(acquisitionDate);
+      if (!size) {
+        const meta = await sharp(result.data).metadata();
+        const width = meta.width || baseQuery.resolution;
+        const height = meta.height || baseQuery.resolution;
+        // metersPerPixel or an AOI can still yield larger frames than `resolution`
+        const scale = Math.min(1, MAX_TIMELAPSE_RESOLUTION / Math.max(width, height));
+        size = { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+      }
+      frames.push({ label: acquisitionDate, data: await annotateFrame(result.data, acquisitionDate, size.width, size.height) });
+      onEvent({ ...progress, status: 'ok', acquisitionDate });
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      await logError(`TIMELAPSE FRAME ERROR: id=${id}, date=${date}, ${reason}`);
+      onEvent({ ...progress, status: 'skipped', reason });
+    }
+  }
+
+  if (frames.length === 0) {
+    throw new ImageryError('No frames could be fetched for this range.', 404);
+  }
+
+  // sharp refuses to join a single image, so a one-frame run is a still animation
+  const animated = frames.length > 1 ? sharp(frames.map(f => f.data), { join: { animated: true } }) : sharp(frames[0].data);
+  const delay = frames.map(() => options.frameDelayMs);
+  const animation = options.animation === 'webp'
+    ? await animated.webp({ delay, loop: 0 }).toBuffer()
+    : await animated.gif({ delay, loop: 0 }).toBuffer();
+  const animationName = `animation.${options.animation}`;
+  if (signal?.aborted) {
+    await appendLog(`TIMELAPSE CANCELLED: id=${id}, before writing output`);
+    return;
+  }
+
+  const dir = path.join(TIMELAPSE_DIR, id);
+  try {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, animationName), animation);
+    await fs.writeFile(path.join(dir, 'frames.zip'), createZip(frames.map((f, i) => ({
+      name: `${String(i + 1).padStart(3, '0')}_${f.label}.png`,
+      data: f.data,
+    }))));
+  } catch (error) {
+    // Don't leave half a run behind
+    await fs.rm(dir, { recursive: true, force: true });
+    throw error;
+  }
+
+  await appendLog(`TIMELAPSE COMPLETE: id=${id}, frames=${frames.length}, animation=${animation.length} bytes`);
+  onEvent({ type: 'complete', id, frames: frames.map(f => f.label), animation: animationName, zip: 'frames.zip' });
+}
+
+// Stored output of a finished timelapse; null if the id or file is unknown
+export async function readTimelapseFile(id: string, file: string) {
+  if (!/^[0-9a-f-]{36}$/.test(id) || !/^(animation\.(gif|webp)|frames\.zip)$/.test(file)) return null;
+  try {
+    return await fs.readFile(path.join(TIMELAPSE_DIR, id, file));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,141 @@
+import http from 'http';
+import { getEventListeners } from 'events';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { upstreamFetch } from './upstream';
+import { UpstreamError } from './imagery/errors';
+
+// Stub upstream: each test sets `handle`; `active`/`peak` track requests still being answered
+let server: http.Server;
+let baseUrl: string;
+let handle: (req: http.IncomingMessage, res: http.ServerResponse, n: number) => void;
+let requests = 0;
+let active = 0;
+let peak = 0;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    requests++;
+    peak = Math.max(peak, ++active);
+    res.on('close', () => active--);
+    handle(req, res, requests);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.closeAllConnections();
+  return new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = 0;
+  active = 0;
+  peak = 0;
+  // Fresh breaker and concurrency state, and no backoff wait
+  const states = globalThis.__upstreamState || {};
+  for (const key of Object.keys(states)) delete states[key];
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+  return () => vi.restoreAllMocks();
+});
+
+const reply = (status: number, body = '', headers: Record<string, string> = {}) =>
+  (_req: http.IncomingMessage, res: http.ServerResponse) => {
+    res.writeHead(status, headers);
+    res.end(body);
+  };
+
+async function failure(promise: Promise<unknown>) {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(UpstreamError);
+    return error as UpstreamError;
+  }
+  throw new Error('expected an UpstreamError');
+}
+
+describe('upstreamFetch', () => {
+  it('retries 5xx and returns the first good response', async () => {
+    handle = (req, res, n) => (n < 3 ? reply(503) : reply(200, 'ok'))(req, res);
+    const res = await upstreamFetch('nasa', `${baseUrl}/flaky`);
+    expect(await res.text()).toBe('ok');
+    expect(requests).toBe(3);
+  });
+
+  it('returns other statuses to the caller without retrying', async () => {
+    handle = reply(404, 'missing');
+    const res = await upstreamFetch('nasa', `${baseUrl}/missing`);
+    expect(res.status).toBe(404);
+    expect(await res.text()).toBe('missing');
+    expect(requests).toBe(1);
+  });
+
+  it('gives up with a coded error once attempts run out', async () => {
+    handle = reply(502);
+    const error = await failure(upstreamFetch('nasa', `${baseUrl}/down`));
+    expect([error.code, error.status, error.upstream]).toEqual(['UPSTREAM_ERROR', 502, 'nasa']);
+    expect(requests).toBe(3);
+  });
+
+  it('waits out a short Retry-After and reports a long one', async () => {
+    handle = (req, res, n) => (n === 1 ? reply(429, '', { 'Retry-After': '0' }) : reply(200, 'ok'))(req, res);
+    expect(await (await upstreamFetch('nasa', `${baseUrl}/throttled`)).text()).toBe('ok');
+
+    requests = 0;
+    handle = reply(429, '', { 'Retry-After': '120' });
+    const error = await failure(upstreamFetch('nasa', `${baseUrl}/throttled`));
+    expect([error.code, error.retryAfter]).toEqual(['UPSTREAM_RATE_LIMITED', 120]);
+    expect(requests).toBe(1);
+  });
+
+  it('opens the circuit after repeated failures and fails fast', async () => {
+    handle = reply(500);
+    for (let i = 0; i < 5; i++) await failure(upstreamFetch('nasa', `${baseUrl}/broken`));
+    requests = 0;
+    const error = await failure(upstreamFetch('nasa', `${baseUrl}/broken`));
+    expect(error.code).toBe('UPSTREAM_UNAVAILABLE');
+    expect(error.retryAfter).toBeGreaterThan(0);
+    expect(requests).toBe(0);
+  });
+
+  it('keeps the concurrency slot until the body has been read', async () => {
+    handle = (_req, res) => {
+      res.writeHead(200);
+      res.write('partial ');
+      setTimeout(() => res.end('body'), 30);
+    };
+    const bodies = await Promise.all(Array.from({ length: 8 }, () => upstreamFetch('nasa', `${baseUrl}/slow`).then(res => res.text())));
+    expect(bodies.every(body => body === 'partial body')).toBe(true);
+    // NASA allows 4 at a time
+    expect(peak).toBe(4);
+  });
+
+  it('cleans up its listener on a caller signal it is given', async () => {
+    handle = reply(200, 'ok');
+    const controller = new AbortController();
+    for (let i = 0; i < 3; i++) await (await upstreamFetch('nasa', `${baseUrl}/ok`, { signal: controller.signal })).text();
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+
+  it('reports a body that stalls past the timeout as UPSTREAM_TIMEOUT', async () => {
+    handle = (_req, res) => {
+      res.writeHead(200);
+      res.write('never finished');
+    };
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      const pending = failure(upstreamFetch('gibs', `${baseUrl}/stall`));
+      // Three 20s attempts
+      for (let i = 0; i < 3; i++) {
+        await vi.waitFor(() => expect(requests).toBe(i + 1));
+        await vi.advanceTimersByTimeAsync(20_000);
+      }
+      const error = await pending;
+      expect([error.code, error.status]).toEqual(['UPSTREAM_TIMEOUT', 504]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,166 @@
+import { appendLog, logWarn, logError } from '@/lib/logger';
+import { UpstreamError } from '@/lib/imagery/errors';
+
+export type UpstreamId = 'nasa' | 'copernicus' | 'gibs';
+
+interface UpstreamPolicy {
+  label: string;
+  // Whole request, body included
+  timeoutMs: number;
+  maxAttempts: number;
+  // Requests in flight at once across the process
+  maxConcurrent: number;
+  // Consecutive failed calls that open the circuit, and how long it stays open
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+}
+
+const POLICIES: Record<UpstreamId, UpstreamPolicy> = {
+  nasa: { label: 'NASA', timeoutMs: 30_000, maxAttempts: 3, maxConcurrent: 4, breakerThreshold: 5, breakerCooldownMs: 30_000 },
+  // Process API renders and Statistical API aggregations can take a while
+  copernicus: { label: 'Copernicus', timeoutMs: 90_000, maxAttempts: 3, maxConcurrent: 6, breakerThreshold: 5, breakerCooldownMs: 30_000 },
+  gibs: { label: 'NASA GIBS', timeoutMs: 20_000, maxAttempts: 3, maxConcurrent: 12, breakerThreshold: 8, breakerCooldownMs: 30_000 },
+};
+
+const RETRY_BASE_MS = 500;
+// A Retry-After longer than this is reported to the client instead of waited out
+const MAX_RETRY_WAIT_MS = 15_000;
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+interface UpstreamState {
+  active: number;
+  waiting: (() => void)[];
+  failures: number;
+  openUntil: number;
+}
+
+declare global {
+  var __upstreamState: Record<string, UpstreamState> | undefined;
+}
+
+// Each route bundle gets its own copy of this module; keep one state per process
+const states = (globalThis.__upstreamState ||= {});
+
+function stateOf(upstream: UpstreamId) {
+  return (states[upstream] ||= { active: 0, waiting: [], failures: 0, openUntil: 0 });
+}
+
+async function acquire(upstream: UpstreamId) {
+  const state = stateOf(upstream);
+  if (state.active >= POLICIES[upstream].maxConcurrent) {
+    await new Promise<void>(resolve => state.waiting.push(resolve));
+  }
+  state.active++;
+}
+
+function release(upstream: UpstreamId) {
+  const state = stateOf(upstream);
+  state.active--;
+  state.waiting.shift()?.();
+}
+
+// Retry-After is either seconds or an HTTP date
+function retryAfterMs(res: Response) {
+  const value = res.headers.get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Full jitter: anywhere up to the exponential step
+const backoffMs = (attempt: number) => Math.random() * RETRY_BASE_MS * 2 ** attempt;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function recordFailure(upstream: UpstreamId) {
+  const state = stateOf(upstream);
+  const policy = POLICIES[upstream];
+  state.failures++;
+  if (state.failures >= policy.breakerThreshold) {
+    // Half-open after the cooldown: the next failure reopens it straight away
+    state.openUntil = Date.now() + policy.breakerCooldownMs;
+    await logError(`UPSTREAM CIRCUIT OPEN: upstream=${upstream}, failures=${state.failures}, cooldown=${policy.breakerCooldownMs}ms`);
+  }
+}
+
+async function recordSuccess(upstream: UpstreamId) {
+  const state = stateOf(upstream);
+  if (state.failures >= POLICIES[upstream].breakerThreshold) {
+    await appendLog(`UPSTREAM CIRCUIT CLOSED: upstream=${upstream}`);
+  }
+  state.failures = 0;
+  state.openUntil = 0;
+}
+
+// One attempt under the concurrency limit. The body is read here, so the slot and the
+// timeout cover the whole download; callers get a buffered Response.
+async function attempt(upstream: UpstreamId, url: string, init: RequestInit) {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  if (init.signal?.aborted) controller.abort();
+  init.signal?.addEventListener('abort', onAbort, { once: true });
+  await acquire(upstream);
+  const timer = setTimeout(() => controller.abort(), POLICIES[upstream].timeoutMs);
+  const start = Date.now();
+  try {
+    const res = await fetch(url, { ...init, signal: controller.signal });
+    const body = await res.arrayBuffer();
+    await appendLog('upstream response', { upstream, method: init.method || 'GET', url, status: res.status, bytes: body.byteLength, durationMs: Date.now() - start });
+    return new Response(res.status === 204 || res.status === 304 ? null : body, { status: res.status, statusText: res.statusText, headers: res.headers });
+  } catch (error) {
+    await logWarn('upstream request failed', { upstream, method: init.method || 'GET', url, error, durationMs: Date.now() - start });
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    init.signal?.removeEventListener('abort', onAbort);
+    release(upstream);
+  }
+}
+
+// fetch() for provider APIs: per-upstream timeout and concurrency limit, retries of
+// network errors, 429 and 5xx with exponential backoff (honoring Retry-After), and a
+// circuit breaker that fails fast while an upstream keeps failing. Other statuses are
+// returned for the caller to handle; exhausted retries throw an UpstreamError.
+export async function upstreamFetch(upstream: UpstreamId, url: string, init: RequestInit = {}): Promise<Response> {
+  const policy = POLICIES[upstream];
+  const state = stateOf(upstream);
+  const openFor = state.openUntil - Date.now();
+  if (openFor > 0) {
+    throw new UpstreamError(`${policy.label} is unavailable, not retrying for ${Math.ceil(openFor / 1000)}s`, 503, 'UPSTREAM_UNAVAILABLE', upstream, Math.ceil(openFor / 1000));
+  }
+
+  for (let n = 1; ; n++) {
+    let failure: UpstreamError;
+    let waitMs = backoffMs(n);
+    try {
+      const res = await attempt(upstream, url, init);
+      if (!RETRYABLE_STATUSES.has(res.status)) {
+        await recordSuccess(upstream);
+        return res;
+      }
+      const retryAfter = retryAfterMs(res);
+      if (retryAfter !== undefined) waitMs = retryAfter;
+      const seconds = Math.max(1, Math.ceil(waitMs / 1000));
+      failure = res.status === 429
+        ? new UpstreamError(`${policy.label} is rate-limiting requests`, 429, 'UPSTREAM_RATE_LIMITED', upstream, seconds)
+        : new UpstreamError(`${policy.label} returned an error (${res.status})`, res.status === 503 ? 503 : 502, 'UPSTREAM_ERROR', upstream, seconds);
+    } catch (error) {
+      if (init.signal?.aborted) throw error;
+      // Aborts land here whether they hit the headers or the body
+      const timedOut = error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError');
+      failure = timedOut
+        ? new UpstreamError(`${policy.label} did not respond within ${policy.timeoutMs / 1000}s`, 504, 'UPSTREAM_TIMEOUT', upstream)
+        : new UpstreamError(`Could not reach ${policy.label}`, 502, 'UPSTREAM_UNREACHABLE', upstream);
+    }
+
+    await logWarn(`UPSTREAM RETRYABLE FAILURE: upstream=${upstream}, attempt=${n}/${policy.maxAttempts}, code=${failure.code}, status=${failure.status}, url=${url.split('?')[0]}`);
+    if (n >= policy.maxAttempts || waitMs > MAX_RETRY_WAIT_MS) {
+      // Throttling means the upstream is up, so it does not count toward the breaker
+      if (failure.code !== 'UPSTREAM_RATE_LIMITED') await recordFailure(upstream);
+      throw failure;
+    }
+    await sleep(waitMs);
+  }
+}
@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { createZip, writeZipFile } from './zip';
+
+// Walk the central directory and unpack every entry
+function readZip(zip: Buffer) {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+  const count = zip.readUInt16LE(end + 10);
+  let at = zip.readUInt32LE(end + 16);
+  const entries = [];
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(at)).toBe(0x02014b50);
+    const method = zip.readUInt16LE(at + 10);
+    const crc = zip.readUInt32LE(at + 16);
+    const compressedSize = zip.readUInt32LE(at + 20);
+    const nameLength = zip.readUInt16LE(at + 28);
+    const name = zip.toString('utf8', at + 46, at + 46 + nameLength);
+    const local = zip.readUInt32LE(at + 42);
+    expect(zip.readUInt32LE(local)).toBe(0x04034b50);
+    const start = local + 30 + zip.readUInt16LE(local + 26) + zip.readUInt16LE(local + 28);
+    const body = zip.subarray(start, start + compressedSize);
+    entries.push({ name, method, crc, data: method === 8 ? zlib.inflateRawSync(body) : Buffer.from(body) });
+    at += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZip', () => {
+  it('round-trips entries, deflating only what shrinks', () => {
+    const text = Buffer.from('NDVI,'.repeat(500));
+    const noise = crypto.randomBytes(2000);
+    const entries = readZip(createZip([
+      { name: 'stats.csv', data: text },
+      { name: 'frames/001_2024-01-01.png', data: noise },
+      { name: 'ünïcode.txt', data: Buffer.alloc(0) },
+    ]));
+
+    expect(entries.map(e => e.name)).toEqual(['stats.csv', 'frames/001_2024-01-01.png', 'ünïcode.txt']);
+    expect(entries.map(e => e.method)).toEqual([8, 0, 0]);
+    expect(entries[0].data.equals(text)).toBe(true);
+    expect(entries[1].data.equals(noise)).toBe(true);
+    expect(entries[2].data.length).toBe(0);
+    for (const entry of entries) expect(entry.crc).toBe(zlib.crc32(entry.data));
+  });
+
+  it('writes an empty archive', () => {
+    expect(readZip(createZip([]))).toEqual([]);
+  });
+
+  it('writes the same archive to disk one file at a time', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zip-'));
+    try {
+      const files = [{ name: 'a.txt', data: Buffer.from('a'.repeat(300)) }, { name: 'b.bin', data: crypto.randomBytes(100) }];
+      for (const file of files) await fs.writeFile(path.join(dir, file.name), file.data);
+      const out = path.join(dir, 'results.zip');
+      await writeZipFile(out, files.map(file => ({ name: file.name, path: path.join(dir, file.name) })));
+      const entries = readZip(await fs.readFile(out));
+      expect(entries.map(e => e.name)).toEqual(['a.txt', 'b.bin']);
+      expect(entries.map((e, i) => e.data.equals(files[i].data))).toEqual([true, true]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import fs from 'fs/promises';
+import zlib from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+  date?: Date;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// Local header + body and central directory record for one entry stored at `offset`;
+// entries are deflated unless that doesn't help (e.g. PNGs)
+function zipRecord(entry: ZipEntry, offset: number) {
+  const name = Buffer.from(entry.name, 'utf8');
+  const deflated = zlib.deflateRawSync(entry.data);
+  const useDeflate = deflated.length < entry.data.length;
+  const body = useDeflate ? deflated : entry.data;
+  const crc = crc32(entry.data);
+  const { time, date } = dosDateTime(entry.date || new Date());
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(20, 4);
+  local.writeUInt16LE(0x0800, 6); // UTF-8 names
+  local.writeUInt16LE(useDeflate ? 8 : 0, 8);
+  local.writeUInt16LE(time, 10);
+  local.writeUInt16LE(date, 12);
+  local.writeUInt32LE(crc, 14);
+  local.writeUInt32LE(body.length, 18);
+  local.writeUInt32LE(entry.data.length, 22);
+  local.writeUInt16LE(name.length, 26);
+  local.writeUInt16LE(0, 28);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(20, 4);
+  central.writeUInt16LE(20, 6);
+  central.writeUInt16LE(0x0800, 8);
+  central.writeUInt16LE(useDeflate ? 8 : 0, 10);
+  central.writeUInt16LE(time, 12);
+  central.writeUInt16LE(date, 14);
+  central.writeUInt32LE(crc, 16);
+  central.writeUInt32LE(body.length, 20);
+  central.writeUInt32LE(entry.data.length, 24);
+  central.writeUInt16LE(name.length, 28);
+  central.writeUInt32LE(offset, 42);
+
+  return { local: Buffer.concat([local, name, body]), central: Buffer.concat([central, name]) };
+}
+
+function endRecord(count: number, centralSize: number, centralOffset: number) {
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(count, 8);
+  end.writeUInt16LE(count, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(centralOffset, 16);
+  return end;
+}
+
+// Build a ZIP archive in memory
+export function createZip(entries: ZipEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const record = zipRecord(entry, offset);
+    localParts.push(record.local);
+    centralParts.push(record.central);
+    offset += record.local.length;
+  }
+  const central = Buffer.concat(centralParts);
+  return Buffer.concat([...localParts, central, endRecord(entries.length, central.length, offset)]);
+}
+
+// Write a ZIP archive of files on disk, reading one file at a time so only a single
+// entry is ever held in memory; `entries` pairs each archive name with its source path
+export async function writeZipFile(file: string, entries: { name: string; path: string }[]) {
+  const handle = await fs.open(file, 'w');
+  try {
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+    for (const entry of entries) {
+      const record = zipRecord({ name: entry.name, data: await fs.readFile(entry.path) }, offset);
+      // Offsets are 32-bit without the ZIP64 extension
+      if (offset + record.local.length > 0xffffffff) throw new Error('ZIP archive would exceed 4 GiB');
+      await handle.write(record.local);
+      centralParts.push(record.central);
+      offset += record.local.length;
+    }
+    const central = Buffer.concat(centralParts);
+    await handle.write(Buffer.concat([central, endRecord(entries.length, central.length, offset)]));
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,17 @@
+import os from 'os';
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname, 'src') },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Keep test runs out of the real logs/ and cache/ directories
+    env: {
+      LOG_DIR: path.join(os.tmpdir(), 'imagery-test-logs'),
+      IMAGERY_CACHE_DIR: path.join(os.tmpdir(), 'imagery-test-cache'),
+    },
+  },
+});